@@ -10,12 +10,16 @@
 type ExtensionPreferences = {
   /** Tennis Center - Select your preferred tennis center */
   "tennisCenter": "12" | "8" | "11" | "40" | "5" | "9" | "3" | "14" | "7" | "46" | "37" | "15" | "16" | "6" | "10" | "4" | "2" | "13",
-  /** Email - Your ITEC account email */
+  /** Email - Your ITEC account email (more accounts can be added with Manage Accounts) */
   "email": string,
   /** ID Number - Your Israeli ID number */
   "userId": string,
   /** Chrome/Chromium Path (Optional) - Path to Chrome or Chromium executable. Leave empty to auto-detect. */
-  "chromePath"?: string
+  "chromePath"?: string,
+  /** ITEC Website URL (Optional) - Leave empty for the real site. Set to a local mock server (npm run mock-server) for development. */
+  "baseUrl"?: string,
+  /** Calendar - Open a calendar event for every court the extension books, including background bookings. */
+  "addBookingsToCalendar": boolean
 }
 
 /** Preferences accessible in all the extension's commands */
@@ -26,6 +30,28 @@ declare namespace Preferences {
   export type ViewCourts = ExtensionPreferences & {}
   /** Preferences accessible in the `view-rents` command */
   export type ViewRents = ExtensionPreferences & {}
+  /** Preferences accessible in the `watch-slots` command */
+  export type WatchSlots = ExtensionPreferences & {}
+  /** Preferences accessible in the `view-watches` command */
+  export type ViewWatches = ExtensionPreferences & {}
+  /** Preferences accessible in the `scheduled-bookings` command */
+  export type ScheduledBookings = ExtensionPreferences & {}
+  /** Preferences accessible in the `run-scheduled-bookings` command */
+  export type RunScheduledBookings = ExtensionPreferences & {}
+  /** Preferences accessible in the `recurring-bookings` command */
+  export type RecurringBookings = ExtensionPreferences & {}
+  /** Preferences accessible in the `manage-accounts` command */
+  export type ManageAccounts = ExtensionPreferences & {}
+  /** Preferences accessible in the `test-login` command */
+  export type TestLogin = ExtensionPreferences & {}
+  /** Preferences accessible in the `export-rents-calendar` command */
+  export type ExportRentsCalendar = ExtensionPreferences & {}
+  /** Preferences accessible in the `rental-history` command */
+  export type RentalHistory = ExtensionPreferences & {}
+  /** Preferences accessible in the `next-rental` command */
+  export type NextRental = ExtensionPreferences & {}
+  /** Preferences accessible in the `quick-book` command */
+  export type QuickBook = ExtensionPreferences & {}
 }
 
 declare namespace Arguments {
@@ -33,5 +59,32 @@ declare namespace Arguments {
   export type ViewCourts = {}
   /** Arguments passed to the `view-rents` command */
   export type ViewRents = {}
+  /** Arguments passed to the `watch-slots` command */
+  export type WatchSlots = {}
+  /** Arguments passed to the `view-watches` command */
+  export type ViewWatches = {}
+  /** Arguments passed to the `scheduled-bookings` command */
+  export type ScheduledBookings = {}
+  /** Arguments passed to the `run-scheduled-bookings` command */
+  export type RunScheduledBookings = {}
+  /** Arguments passed to the `recurring-bookings` command */
+  export type RecurringBookings = {}
+  /** Arguments passed to the `manage-accounts` command */
+  export type ManageAccounts = {}
+  /** Arguments passed to the `test-login` command */
+  export type TestLogin = {}
+  /** Arguments passed to the `export-rents-calendar` command */
+  export type ExportRentsCalendar = {}
+  /** Arguments passed to the `rental-history` command */
+  export type RentalHistory = {}
+  /** Arguments passed to the `next-rental` command */
+  export type NextRental = {}
+  /** Arguments passed to the `quick-book` command */
+  export type QuickBook = {
+  /** tomorrow 20:00 2h */
+  "query": string,
+  /** Courts, e.g. 4,5 */
+  "courts": string
+}
 }
 
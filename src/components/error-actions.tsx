@@ -0,0 +1,72 @@
+import { Action, Icon, LaunchType, launchCommand, openExtensionPreferences, showToast, Toast } from "@raycast/api";
+import { AuthCredentials, getLoginFailure, refreshAuthTokens } from "../services/auth";
+import { ApiError, getRecoveryActions } from "../services/errors";
+import { getSiteUrl } from "../services/site";
+
+/**
+ * Actions offering the right recovery for an API error (re-login, retry, open website)
+ */
+export function ErrorRecoveryActions({
+  error,
+  credentials,
+  onRetry,
+}: {
+  error: ApiError;
+  credentials: AuthCredentials;
+  onRetry: () => void;
+}) {
+  async function handleRelogin() {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Logging in again..." });
+    const tokens = await refreshAuthTokens(credentials);
+
+    if (!tokens) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Login failed";
+      toast.message = getLoginFailure(credentials)?.message ?? "Check your email and ID number";
+      return;
+    }
+
+    toast.style = Toast.Style.Success;
+    toast.title = "Logged in";
+    onRetry();
+  }
+
+  return (
+    <>
+      {getRecoveryActions(error).map((action) => {
+        switch (action) {
+          case "relogin":
+            return <Action key={action} title="Refresh Login" icon={Icon.Key} onAction={handleRelogin} />;
+          case "retry":
+            return <Action key={action} title="Retry" icon={Icon.ArrowClockwise} onAction={onRetry} />;
+          case "test-login":
+            return (
+              <Action
+                key={action}
+                title="Test Login"
+                icon={Icon.Heartbeat}
+                onAction={() => launchCommand({ name: "test-login", type: LaunchType.UserInitiated })}
+              />
+            );
+          case "open-preferences":
+            return (
+              <Action
+                key={action}
+                title="Open Extension Preferences"
+                icon={Icon.Gear}
+                onAction={openExtensionPreferences}
+              />
+            );
+          case "open-website":
+            return (
+              <Action.OpenInBrowser
+                key={action}
+                title="Open Website"
+                url={getSiteUrl("/self_services/court_invitation")}
+              />
+            );
+        }
+      })}
+    </>
+  );
+}
@@ -1,22 +1,31 @@
-export const TENNIS_CENTERS = [
-  { id: "12", name: "אופקים", nameEn: "Ofakim" },
-  { id: "8", name: "אשקלון", nameEn: "Ashkelon" },
-  { id: "11", name: "באר שבע", nameEn: "Beer Sheva" },
-  { id: "40", name: "דימונה", nameEn: "Dimona" },
-  { id: "5", name: "חיפה", nameEn: "Haifa" },
-  { id: "9", name: "טבריה", nameEn: "Tiberias" },
-  { id: "3", name: "יפו", nameEn: "Jaffa" },
-  { id: "14", name: "יקנעם", nameEn: "Yokneam" },
-  { id: "7", name: "ירושלים", nameEn: "Jerusalem" },
-  { id: "46", name: "כוכב יאיר", nameEn: "Kochav Yair" },
-  { id: "37", name: "נהריה", nameEn: "Nahariya" },
-  { id: "15", name: "סאג'ור", nameEn: "Sajur" },
-  { id: "16", name: "עכו", nameEn: "Acre" },
-  { id: "6", name: "ערד", nameEn: "Arad" },
-  { id: "10", name: "קרית אונו", nameEn: "Kiryat Ono" },
-  { id: "4", name: "קרית שמונה", nameEn: "Kiryat Shmona" },
-  { id: "2", name: "רמת השרון", nameEn: "Ramat Hasharon" },
-  { id: "13", name: "תל אביב (יד אליהו)", nameEn: "Tel Aviv (Yad Eliyahu)" },
+export type Region = "north" | "center" | "jerusalem" | "south";
+
+export interface TennisCenter {
+  id: string;
+  name: string;
+  nameEn: string;
+  region: Region; // Used to find centers near the preferred one
+}
+
+export const TENNIS_CENTERS: TennisCenter[] = [
+  { id: "12", name: "אופקים", nameEn: "Ofakim", region: "south" },
+  { id: "8", name: "אשקלון", nameEn: "Ashkelon", region: "south" },
+  { id: "11", name: "באר שבע", nameEn: "Beer Sheva", region: "south" },
+  { id: "40", name: "דימונה", nameEn: "Dimona", region: "south" },
+  { id: "5", name: "חיפה", nameEn: "Haifa", region: "north" },
+  { id: "9", name: "טבריה", nameEn: "Tiberias", region: "north" },
+  { id: "3", name: "יפו", nameEn: "Jaffa", region: "center" },
+  { id: "14", name: "יקנעם", nameEn: "Yokneam", region: "north" },
+  { id: "7", name: "ירושלים", nameEn: "Jerusalem", region: "jerusalem" },
+  { id: "46", name: "כוכב יאיר", nameEn: "Kochav Yair", region: "center" },
+  { id: "37", name: "נהריה", nameEn: "Nahariya", region: "north" },
+  { id: "15", name: "סאג'ור", nameEn: "Sajur", region: "north" },
+  { id: "16", name: "עכו", nameEn: "Acre", region: "north" },
+  { id: "6", name: "ערד", nameEn: "Arad", region: "south" },
+  { id: "10", name: "קרית אונו", nameEn: "Kiryat Ono", region: "center" },
+  { id: "4", name: "קרית שמונה", nameEn: "Kiryat Shmona", region: "north" },
+  { id: "2", name: "רמת השרון", nameEn: "Ramat Hasharon", region: "center" },
+  { id: "13", name: "תל אביב (יד אליהו)", nameEn: "Tel Aviv (Yad Eliyahu)", region: "center" },
 ];
 
 export const COURT_TYPE = "1"; // Always 1 for tennis courts
@@ -25,4 +34,14 @@ export const DURATIONS = [1, 1.5, 2, 3] as const;
 
 export type Duration = (typeof DURATIONS)[number];
 
-export const BASE_URL = "https://center.tennis.org.il";
+export const DEFAULT_BASE_URL = "https://center.tennis.org.il"; // Overridable with the baseUrl preference
+
+// Courts can be booked this many days ahead (today included)
+export const BOOKING_WINDOW_DAYS = 14;
+
+// Assumed notice for cancelling a rental: the site does not publish its policy, so deadlines built on
+// this are estimates. The cancel link on the rentals page is what counts
+export const CANCELLATION_NOTICE_HOURS = 24;
+
+// Warn about rentals whose cancellation window closes within this many hours
+export const CANCELLATION_WARNING_HOURS = 6;
@@ -0,0 +1,36 @@
+import { showHUD, showToast, Toast, open } from "@raycast/api";
+import { fetchMyRents } from "./services/api";
+import { getActiveAccount, toCredentials } from "./services/accounts";
+import { exportRentalsCalendar } from "./services/calendar";
+import { toApiError } from "./services/errors";
+import { parseMyRents } from "./utils/parser";
+import { isFutureDate } from "./utils/date";
+
+/**
+ * Export the active account's upcoming rentals to an .ics file and open it in the calendar app
+ */
+export default async function Command() {
+  const account = await getActiveAccount();
+
+  try {
+    await showToast({ style: Toast.Style.Animated, title: "Exporting rentals" });
+
+    const html = await fetchMyRents(toCredentials(account));
+    const rentals = parseMyRents(html).filter((rental) => isFutureDate(rental.dateObj));
+
+    if (rentals.length === 0) {
+      await showHUD("No upcoming rentals to export");
+      return;
+    }
+
+    await open(await exportRentalsCalendar(rentals, account));
+    await showHUD(`Exported ${rentals.length} rental${rentals.length === 1 ? "" : "s"} to Calendar`);
+  } catch (error) {
+    console.error("Error exporting rentals:", error);
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to export rentals",
+      message: toApiError(error).message,
+    });
+  }
+}
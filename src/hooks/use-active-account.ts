@@ -0,0 +1,16 @@
+import { useState, useEffect } from "react";
+import { Account, getActiveAccount, toCredentials } from "../services/accounts";
+import { AuthCredentials } from "../services/auth";
+
+/**
+ * Load the active account; credentials are null until it is known
+ */
+export function useActiveAccount(): { account: Account | null; credentials: AuthCredentials | null } {
+  const [account, setAccount] = useState<Account | null>(null);
+
+  useEffect(() => {
+    getActiveAccount().then(setAccount);
+  }, []);
+
+  return { account, credentials: account ? toCredentials(account) : null };
+}
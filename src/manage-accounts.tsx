@@ -0,0 +1,154 @@
+import {
+  List,
+  Form,
+  Icon,
+  Color,
+  Action,
+  ActionPanel,
+  showToast,
+  Toast,
+  useNavigation,
+  confirmAlert,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import {
+  Account,
+  DEFAULT_ACCOUNT_ID,
+  addAccount,
+  getAccounts,
+  getActiveAccount,
+  removeAccount,
+  setActiveAccount,
+  withAccountName,
+} from "./services/accounts";
+
+function AccountForm({ onSave }: { onSave: () => void }) {
+  const { pop } = useNavigation();
+  const [userIdError, setUserIdError] = useState<string | undefined>();
+
+  async function handleSubmit(values: { name: string; email: string; userId: string }) {
+    if (!/^\d{5,9}$/.test(values.userId.trim())) {
+      setUserIdError("Enter the ID number digits only");
+      return;
+    }
+
+    try {
+      await addAccount({ name: values.name.trim(), email: values.email.trim(), userId: values.userId.trim() });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Cannot add account",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
+
+    onSave();
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle="Add Account"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Add Account" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="name" title="Name" placeholder="Dana" info="Shown in navigation titles" />
+      <Form.TextField id="email" title="Email" placeholder="your.email@example.com" />
+      <Form.TextField
+        id="userId"
+        title="ID Number"
+        placeholder="123456789"
+        error={userIdError}
+        onChange={() => setUserIdError(undefined)}
+      />
+    </Form>
+  );
+}
+
+export default function Command() {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [active, setActive] = useState<Account | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  async function loadAccounts() {
+    setAccounts(await getAccounts());
+    setActive(await getActiveAccount());
+    setIsLoading(false);
+  }
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  async function handleSwitch(account: Account) {
+    await setActiveAccount(account.id);
+    await loadAccounts();
+    await showToast({ style: Toast.Style.Success, title: `Switched to ${account.name}` });
+  }
+
+  async function handleRemove(account: Account) {
+    const confirmed = await confirmAlert({
+      title: "Remove Account",
+      message: `Remove ${account.name} (${account.email}) with its saved session, watches and scheduled bookings?`,
+      primaryAction: { title: "Remove" },
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    await removeAccount(account.id);
+    await loadAccounts();
+  }
+
+  const addAction = (
+    <Action.Push
+      title="Add Account"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<AccountForm onSave={loadAccounts} />}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} navigationTitle={withAccountName("Manage Accounts", active)}>
+      {accounts.map((account) => {
+        const isActive = account.id === active?.id;
+
+        return (
+          <List.Item
+            key={account.id}
+            icon={isActive ? { source: Icon.CheckCircle, tintColor: Color.Green } : Icon.Person}
+            title={account.name}
+            subtitle={account.email}
+            accessories={[
+              ...(account.id === DEFAULT_ACCOUNT_ID ? [{ tag: "Preferences" }] : []),
+              ...(isActive ? [{ tag: { value: "Active", color: Color.Green } }] : []),
+            ]}
+            actions={
+              <ActionPanel>
+                {!isActive && (
+                  <Action title="Switch to Account" icon={Icon.Switch} onAction={() => handleSwitch(account)} />
+                )}
+                {addAction}
+                {account.id !== DEFAULT_ACCOUNT_ID && (
+                  <Action
+                    title="Remove Account"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => handleRemove(account)}
+                  />
+                )}
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,258 @@
+import {
+  MenuBarExtra,
+  Cache,
+  Icon,
+  LaunchType,
+  confirmAlert,
+  launchCommand,
+  getPreferenceValues,
+  showHUD,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import { fetchMyRents, fetchTimeSlots, searchCourts } from "./services/api";
+import { AuthCredentials } from "./services/auth";
+import { Account, getActiveAccount, getAccountLabel, toCredentials } from "./services/accounts";
+import { bookCourt } from "./services/booking";
+import { cancelRental } from "./services/cancellation";
+import { toApiError } from "./services/errors";
+import { parseMyRents, CourtSlot, Rental } from "./utils/parser";
+import { getCenterName } from "./utils/centers";
+import {
+  combineDateAndTime,
+  formatDuration,
+  generateTimeSlotsForDate,
+  getToday,
+  getWeekStart,
+  getWeekday,
+  parseDate,
+} from "./utils/date";
+
+interface Preferences {
+  tennisCenter: string;
+}
+
+/**
+ * Start times still open today at the preferred center
+ */
+interface OpenSlot {
+  time: string;
+  slots: CourtSlot[];
+}
+
+/**
+ * What the menu shows; cached so the menu bar has something to show while it refreshes
+ */
+interface MenuSnapshot {
+  rentals: Rental[]; // Upcoming rentals, earliest first
+  openSlots: OpenSlot[];
+  unitId: string;
+}
+
+const OPEN_SLOT_DURATION = 1;
+
+const cache = new Cache();
+
+function getRentalStart(rental: Rental): Date {
+  return combineDateAndTime(rental.dateObj, rental.time.split("-")[0]);
+}
+
+function getRentalLabel(rental: Rental): string {
+  const court = rental.courtNumber ? `Court ${rental.courtNumber}` : rental.court;
+  return `${getWeekday(rental.dateObj)} ${rental.time.split("-")[0]} · ${court}`;
+}
+
+function getCacheKey(accountId: string): string {
+  return `next_rental_snapshot_${accountId}`;
+}
+
+function readSnapshot(accountId: string): MenuSnapshot | null {
+  const stored = cache.get(getCacheKey(accountId));
+  if (!stored) {
+    return null;
+  }
+
+  // Dates come back from JSON as strings
+  const snapshot: MenuSnapshot = JSON.parse(stored);
+  return { ...snapshot, rentals: snapshot.rentals.map((rental) => ({ ...rental, dateObj: parseDate(rental.date) })) };
+}
+
+/**
+ * Load upcoming rentals and every start time still open today, one search per remaining start time
+ */
+async function loadSnapshot(credentials: AuthCredentials, unitId: string): Promise<MenuSnapshot> {
+  const now = new Date();
+  const rentals = parseMyRents(await fetchMyRents(credentials))
+    .filter((rental) => getRentalStart(rental) > now)
+    .sort((a, b) => getRentalStart(a).getTime() - getRentalStart(b).getTime());
+
+  const today = getToday();
+  const times = generateTimeSlotsForDate(today, await fetchTimeSlots(unitId, today, credentials)).map(
+    (slot) => slot.time
+  );
+
+  const openSlots: OpenSlot[] = [];
+  for (const time of times) {
+    try {
+      const availability = await searchCourts(
+        { unitId, date: today, startHour: time, duration: OPEN_SLOT_DURATION },
+        credentials
+      );
+      if (availability.status === "available") {
+        openSlots.push({ time, slots: availability.slots });
+      }
+    } catch (error) {
+      console.error(`Error checking ${time}:`, error);
+    }
+  }
+
+  return { rentals, openSlots, unitId };
+}
+
+export default function Command() {
+  const [account, setAccount] = useState<Account | null>(null);
+  const [snapshot, setSnapshot] = useState<MenuSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const unitId = getPreferenceValues<Preferences>().tennisCenter;
+
+  async function refresh() {
+    setIsLoading(true);
+    try {
+      const active = await getActiveAccount();
+      setAccount(active);
+      // Show what this account had last time while loading
+      setSnapshot((current) => current ?? readSnapshot(active.id));
+      const loaded = await loadSnapshot(toCredentials(active), unitId);
+      cache.set(getCacheKey(active.id), JSON.stringify(loaded));
+      setSnapshot(loaded);
+    } catch (error) {
+      console.error("Error refreshing the menu bar:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  async function handleCancel(rental: Rental) {
+    if (!account || !rental.allocationId) {
+      return;
+    }
+
+    const confirmed = await confirmAlert({
+      title: "Cancel Rental",
+      message: `Cancel ${rental.date} ${rental.time}, ${rental.court}?`,
+      primaryAction: {
+        title: "Cancel Rental",
+      },
+    });
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      const result = await cancelRental({ ...rental, allocationId: rental.allocationId }, toCredentials(account));
+      await showHUD(result.status === "cancelled" ? `Cancelled ${getRentalLabel(rental)}` : result.message);
+    } catch (error) {
+      await showHUD(`Cancellation failed: ${toApiError(error).message}`);
+    }
+    await refresh();
+  }
+
+  async function handleBook(time: string, slot: CourtSlot) {
+    if (!account) {
+      return;
+    }
+
+    const confirmed = await confirmAlert({
+      title: "Confirm Booking",
+      message: `Book Court ${slot.courtNumber} today at ${time} for ${formatDuration(OPEN_SLOT_DURATION)}?`,
+      primaryAction: {
+        title: "Book Court",
+      },
+    });
+    if (!confirmed) {
+      return;
+    }
+
+    const result = await bookCourt(
+      {
+        unitId,
+        courtId: slot.courtId,
+        courtNumber: slot.courtNumber,
+        date: getToday(),
+        startHour: time,
+        duration: OPEN_SLOT_DURATION,
+      },
+      toCredentials(account)
+    );
+    await showHUD(result.success ? `Booked court ${slot.courtNumber} at ${time}` : `Booking failed: ${result.message}`);
+    await refresh();
+  }
+
+  const rentals = snapshot?.rentals ?? [];
+  const weekEnd = getWeekStart(new Date());
+  weekEnd.setDate(weekEnd.getDate() + 7);
+  const thisWeek = rentals.filter((rental) => rental.dateObj < weekEnd);
+  const next = rentals[0];
+
+  return (
+    <MenuBarExtra
+      icon={next ? undefined : Icon.TennisBall}
+      title={next ? `🎾 ${getRentalLabel(next)}` : undefined}
+      tooltip={next ? `Next rental: ${next.date} ${next.time}, ${next.court}` : "No upcoming rentals"}
+      isLoading={isLoading}
+    >
+      <MenuBarExtra.Section title={account ? getAccountLabel("This Week", account) : "This Week"}>
+        {thisWeek.length === 0 && <MenuBarExtra.Item title="No rentals this week" />}
+        {thisWeek.map((rental) => (
+          <MenuBarExtra.Submenu key={`${rental.date}_${rental.time}_${rental.court}`} title={getRentalLabel(rental)}>
+            <MenuBarExtra.Item title={`${rental.date} ${rental.time}`} subtitle={rental.court} />
+            {rental.allocationId ? (
+              <MenuBarExtra.Item title="Cancel Rental" icon={Icon.Trash} onAction={() => handleCancel(rental)} />
+            ) : (
+              <MenuBarExtra.Item title="Cannot be cancelled" icon={Icon.Lock} />
+            )}
+          </MenuBarExtra.Submenu>
+        ))}
+      </MenuBarExtra.Section>
+      <MenuBarExtra.Section title={`Open Today at ${getCenterName(snapshot?.unitId ?? unitId)}`}>
+        {snapshot && snapshot.openSlots.length === 0 && <MenuBarExtra.Item title="No open courts left today" />}
+        {snapshot?.openSlots.map((open) => (
+          <MenuBarExtra.Submenu
+            key={open.time}
+            title={`${open.time} · ${open.slots.length} court${open.slots.length === 1 ? "" : "s"}`}
+          >
+            {open.slots.map((slot) => (
+              <MenuBarExtra.Item
+                key={slot.courtId}
+                title={`Book Court ${slot.courtNumber} for ${formatDuration(OPEN_SLOT_DURATION)}`}
+                icon={Icon.CheckCircle}
+                onAction={() => handleBook(open.time, slot)}
+              />
+            ))}
+          </MenuBarExtra.Submenu>
+        ))}
+      </MenuBarExtra.Section>
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="My Upcoming Rentals"
+          icon={Icon.Calendar}
+          onAction={() => launchCommand({ name: "view-rents", type: LaunchType.UserInitiated })}
+        />
+        <MenuBarExtra.Item
+          title="Find Courts"
+          icon={Icon.MagnifyingGlass}
+          onAction={() => launchCommand({ name: "view-courts", type: LaunchType.UserInitiated })}
+        />
+        <MenuBarExtra.Item
+          title="Refresh"
+          icon={Icon.ArrowClockwise}
+          shortcut={{ modifiers: ["cmd"], key: "r" }}
+          onAction={refresh}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -0,0 +1,276 @@
+import {
+  List,
+  Icon,
+  Color,
+  Action,
+  ActionPanel,
+  Clipboard,
+  LaunchProps,
+  LaunchType,
+  Toast,
+  confirmAlert,
+  getPreferenceValues,
+  launchCommand,
+  showToast,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import { searchCourts } from "./services/api";
+import { AuthCredentials } from "./services/auth";
+import { BookingSuccess, bookCourt, pickPreferredSlot } from "./services/booking";
+import { addBookingToCalendar, getBookingSummary } from "./services/calendar";
+import { toApiError } from "./services/errors";
+import { Account, withAccountName } from "./services/accounts";
+import { getRentalHistory } from "./services/history";
+import { useActiveAccount } from "./hooks/use-active-account";
+import { BookingQuery, parseBookingQuery } from "./utils/booking-query";
+import { getCenterName } from "./utils/centers";
+import { CourtAvailability, CourtSlot } from "./utils/parser";
+import { getFavoriteCourtNumbers } from "./utils/rental-stats";
+import { formatDisplayDateTime, formatDuration, getEndTime } from "./utils/date";
+
+interface Preferences {
+  tennisCenter: string;
+}
+
+interface QuickBookArguments {
+  query: string; // e.g. "tomorrow 20:00 2h ramat hasharon"
+  courts?: string; // Preferred court numbers, e.g. "4, 5"; optional
+}
+
+function describeQuery(query: BookingQuery): string {
+  const time = `${query.startHour}-${getEndTime(query.startHour, query.duration)}`;
+  return `${getCenterName(query.unitId)}, ${formatDisplayDateTime(query.date, time)}`;
+}
+
+/**
+ * Courts to prefer, best first: the ones asked for, else the ones most played at the center
+ */
+async function getPreferredCourts(requested: string, unitId: string, account: Account): Promise<number[]> {
+  const courts = requested
+    .split(/[\s,]+/)
+    .map((c) => parseInt(c, 10))
+    .filter((c) => !isNaN(c));
+  return courts.length > 0 ? courts : getFavoriteCourtNumbers(await getRentalHistory(account), unitId);
+}
+
+/**
+ * Ask once, then book the court; returns the booking when it went through
+ */
+async function confirmAndBook(
+  query: BookingQuery,
+  slot: CourtSlot,
+  credentials: AuthCredentials
+): Promise<BookingSuccess | null> {
+  const confirmed = await confirmAlert({
+    title: "Confirm Booking",
+    message: `Book Court ${slot.courtNumber} at ${describeQuery(query)} (${formatDuration(query.duration)})?`,
+    primaryAction: {
+      title: "Book Court",
+    },
+  });
+
+  if (!confirmed) {
+    return null;
+  }
+
+  const toast = await showToast({
+    style: Toast.Style.Animated,
+    title: "Booking court",
+    message: `Court ${slot.courtNumber} at ${query.startHour}...`,
+  });
+
+  const result = await bookCourt({ ...query, courtId: slot.courtId, courtNumber: slot.courtNumber }, credentials);
+
+  if (!result.success) {
+    toast.style = Toast.Style.Failure;
+    toast.title = "Booking failed";
+    toast.message = result.message;
+    return null;
+  }
+
+  toast.style = Toast.Style.Success;
+  toast.title = "Booking completed!";
+  toast.message = `Court ${slot.courtNumber} has been booked`;
+  return result;
+}
+
+export default function Command(props: LaunchProps<{ arguments: QuickBookArguments }>) {
+  const { tennisCenter } = getPreferenceValues<Preferences>();
+  const [parsed] = useState(() => parseBookingQuery(props.arguments.query, tennisCenter));
+  const [query, setQuery] = useState<BookingQuery | null>(parsed.ok ? parsed.query : null);
+  const { account, credentials } = useActiveAccount();
+  const [availability, setAvailability] = useState<CourtAvailability | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [booking, setBooking] = useState<BookingSuccess | null>(null);
+  const [preferredCourts, setPreferredCourts] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function book(slot: CourtSlot) {
+    if (!query || !credentials) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await confirmAndBook(query, slot, credentials);
+      if (result) {
+        setBooking(result);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Only the request as typed is booked after a single confirmation; other times let the user pick the court
+  const isTypedQuery = parsed.ok && query === parsed.query;
+
+  async function search() {
+    if (!query || !account || !credentials) {
+      return;
+    }
+
+    setIsLoading(true);
+    setAvailability(null);
+    setSearchError(null);
+
+    let found: CourtAvailability | null = null;
+    let preferred: number[] = [];
+    try {
+      preferred = await getPreferredCourts(props.arguments.courts ?? "", query.unitId, account);
+      setPreferredCourts(preferred);
+      found = await searchCourts(query, credentials);
+      setAvailability(found);
+    } catch (error) {
+      console.error("Error searching for courts:", error);
+      setSearchError(toApiError(error).message);
+    } finally {
+      setIsLoading(false);
+    }
+
+    const best = found?.status === "available" ? pickPreferredSlot(found.slots, preferred, true) : undefined;
+    if (best && isTypedQuery) {
+      await book(best);
+    }
+  }
+
+  useEffect(() => {
+    search();
+  }, [account?.id, query]);
+
+  if (!parsed.ok || !query) {
+    return (
+      <List navigationTitle="Quick Book">
+        <List.EmptyView
+          icon={{ source: Icon.ExclamationMark, tintColor: Color.Orange }}
+          title={parsed.ok ? "Nothing to book" : parsed.error}
+          description={'Try e.g. "tomorrow 20:00 2h ramat hasharon" or "thu 19:30"'}
+          actions={
+            <ActionPanel>
+              <Action
+                title="Find Courts"
+                icon={Icon.MagnifyingGlass}
+                onAction={() => launchCommand({ name: "view-courts", type: LaunchType.UserInitiated })}
+              />
+            </ActionPanel>
+          }
+        />
+      </List>
+    );
+  }
+
+  const title = describeQuery(query);
+  const best =
+    availability?.status === "available" ? pickPreferredSlot(availability.slots, preferredCourts, true) : undefined;
+
+  return (
+    <List isLoading={isLoading} navigationTitle={withAccountName("Quick Book", account)}>
+      {booking && (
+        <List.Section title="Booked">
+          <List.Item
+            icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+            title={`Court ${booking.params.courtNumber}`}
+            subtitle={title}
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Add to Calendar"
+                  icon={Icon.Calendar}
+                  onAction={() => addBookingToCalendar(booking.params)}
+                />
+                <Action
+                  title="Copy Summary"
+                  icon={Icon.Clipboard}
+                  onAction={() => Clipboard.copy(getBookingSummary(booking.params))}
+                />
+              </ActionPanel>
+            }
+          />
+        </List.Section>
+      )}
+      {!booking && availability?.status === "available" && (
+        <List.Section title={title} subtitle={formatDuration(query.duration)}>
+          {availability.slots.map((slot) => (
+            <List.Item
+              key={slot.courtId}
+              icon={Icon.Circle}
+              title={`Court ${slot.courtNumber}`}
+              accessories={
+                slot === best
+                  ? [
+                      {
+                        tag: { value: "Best", color: Color.Green },
+                        tooltip: preferredCourts.includes(slot.courtNumber)
+                          ? "Your most preferred court that is free"
+                          : "None of your preferred courts is free, so the first free one",
+                      },
+                    ]
+                  : []
+              }
+              actions={
+                <ActionPanel>
+                  <Action title={`Book Court ${slot.courtNumber}`} icon={Icon.Check} onAction={() => book(slot)} />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+      {availability?.status === "no-courts" && (
+        <List.Section title={`No courts free at ${title}`}>
+          {(availability.suggestedTimes ?? []).map((time) => (
+            <List.Item
+              key={time}
+              icon={Icon.Clock}
+              title={time}
+              subtitle="Suggested by the site"
+              actions={
+                <ActionPanel>
+                  <Action
+                    title={`Search at ${time}`}
+                    icon={Icon.MagnifyingGlass}
+                    onAction={() => setQuery({ ...query, startHour: time })}
+                  />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+      {availability?.status === "no-courts" && (
+        <List.EmptyView icon={Icon.XMarkCircle} title="No courts free" description={title} />
+      )}
+      {searchError && (
+        <List.EmptyView
+          icon={{ source: Icon.Warning, tintColor: Color.Red }}
+          title="Search failed"
+          description={searchError}
+          actions={
+            <ActionPanel>
+              <Action title="Try Again" icon={Icon.ArrowClockwise} onAction={search} />
+            </ActionPanel>
+          }
+        />
+      )}
+    </List>
+  );
+}
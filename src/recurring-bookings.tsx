@@ -0,0 +1,327 @@
+import {
+  List,
+  Form,
+  Icon,
+  Color,
+  Action,
+  ActionPanel,
+  showToast,
+  Toast,
+  getPreferenceValues,
+  useNavigation,
+  confirmAlert,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import { fetchMyRents } from "./services/api";
+import { bookCourt } from "./services/booking";
+import { addRule, evaluateRule, getRules, removeRule, Occurrence, RecurringRule } from "./services/recurring";
+import { withAccountName } from "./services/accounts";
+import { useActiveAccount } from "./hooks/use-active-account";
+import { TENNIS_CENTERS, DURATIONS } from "./constants";
+import { getCenterName } from "./utils/centers";
+import { formatDateDisplay, formatDuration, isValidTime } from "./utils/date";
+import { parseMyRents } from "./utils/parser";
+
+interface Preferences {
+  tennisCenter: string;
+}
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function RuleForm({ onSave }: { onSave: () => void }) {
+  const preferences = getPreferenceValues<Preferences>();
+  const { pop } = useNavigation();
+  const [timeError, setTimeError] = useState<string | undefined>();
+
+  async function handleSubmit(values: {
+    weekday: string;
+    time: string;
+    duration: string;
+    unitId: string;
+    preferredCourts: string;
+    anyCourt: boolean;
+  }) {
+    if (!isValidTime(values.time)) {
+      setTimeError("Use HH:mm, e.g. 20:00");
+      return;
+    }
+
+    await addRule({
+      weekday: Number(values.weekday),
+      time: values.time,
+      duration: Number(values.duration),
+      unitId: values.unitId,
+      preferredCourts: values.preferredCourts
+        .split(/[\s,]+/)
+        .map((c) => parseInt(c, 10))
+        .filter((c) => !isNaN(c)),
+      anyCourt: values.anyCourt,
+    });
+
+    onSave();
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle="New Recurring Booking"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Rule" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="weekday" title="Weekday" defaultValue="2">
+        {WEEKDAYS.map((day, index) => (
+          <Form.Dropdown.Item key={day} value={String(index)} title={day} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="time"
+        title="Start Time"
+        placeholder="20:00"
+        error={timeError}
+        onChange={() => setTimeError(undefined)}
+      />
+      <Form.Dropdown id="duration" title="Duration" defaultValue="1">
+        {DURATIONS.map((d) => (
+          <Form.Dropdown.Item key={d} value={String(d)} title={formatDuration(d)} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown id="unitId" title="Tennis Center" defaultValue={preferences.tennisCenter}>
+        {TENNIS_CENTERS.map((center) => (
+          <Form.Dropdown.Item key={center.id} value={center.id} title={`${center.nameEn} (${center.name})`} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="preferredCourts"
+        title="Preferred Courts"
+        placeholder="4, 2"
+        info="Court numbers in order of preference"
+      />
+      <Form.Checkbox id="anyCourt" label="Otherwise book any free court" defaultValue={true} />
+    </Form>
+  );
+}
+
+function getRuleTitle(rule: RecurringRule): string {
+  return `Every ${WEEKDAYS[rule.weekday]} at ${rule.time}`;
+}
+
+export default function Command() {
+  const { account, credentials } = useActiveAccount();
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [occurrences, setOccurrences] = useState<Map<string, Occurrence[]>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+
+  async function loadRules() {
+    if (!credentials) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const storedRules = await getRules();
+      setRules(storedRules);
+
+      if (storedRules.length === 0) {
+        return;
+      }
+
+      const html = await fetchMyRents(credentials);
+      const rentals = parseMyRents(html);
+
+      const evaluated = new Map<string, Occurrence[]>();
+      for (const rule of storedRules) {
+        evaluated.set(rule.id, await evaluateRule(rule, rentals, credentials));
+        setOccurrences(new Map(evaluated));
+      }
+    } catch (error) {
+      console.error("Error evaluating recurring bookings:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to check recurring bookings",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadRules();
+  }, [account?.id]);
+
+  async function handleDelete(rule: RecurringRule) {
+    const confirmed = await confirmAlert({
+      title: "Delete Rule",
+      message: `Stop booking ${getRuleTitle(rule)}? Rentals already booked are kept`,
+      primaryAction: { title: "Delete" },
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    await removeRule(rule.id);
+    await loadRules();
+  }
+
+  async function bookOccurrences(items: Array<{ rule: RecurringRule; occurrence: Occurrence }>) {
+    const toBook = items.filter(({ occurrence }) => occurrence.status === "open");
+
+    if (!credentials) {
+      return;
+    }
+
+    if (toBook.length === 0) {
+      await showToast({ style: Toast.Style.Failure, title: "Nothing to book", message: "No open occurrences" });
+      return;
+    }
+
+    const confirmed = await confirmAlert({
+      title: "Book Missing Occurrences",
+      message: toBook.map(({ rule, occurrence }) => `${formatDateDisplay(occurrence.date)} ${rule.time}`).join("\n"),
+      primaryAction: { title: `Book ${toBook.length}` },
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    setIsLoading(true);
+    const failures: string[] = [];
+
+    for (const { rule, occurrence } of toBook) {
+      if (occurrence.status !== "open") continue;
+
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Booking",
+        message: `${formatDateDisplay(occurrence.date)} ${rule.time}...`,
+      });
+
+      const result = await bookCourt(
+        {
+          unitId: rule.unitId,
+          courtId: occurrence.slot.courtId,
+          courtNumber: occurrence.slot.courtNumber,
+          date: occurrence.date,
+          startHour: rule.time,
+          duration: rule.duration,
+        },
+        credentials
+      );
+
+      if (!result.success) {
+        failures.push(`${formatDateDisplay(occurrence.date)}: ${result.message}`);
+      }
+    }
+
+    await showToast({
+      style: failures.length === 0 ? Toast.Style.Success : Toast.Style.Failure,
+      title: `Booked ${toBook.length - failures.length} of ${toBook.length}`,
+      message: failures.join(" · ") || undefined,
+    });
+
+    await loadRules();
+  }
+
+  const allItems = rules.flatMap((rule) =>
+    (occurrences.get(rule.id) ?? []).map((occurrence) => ({ rule, occurrence }))
+  );
+
+  const newRuleAction = (
+    <Action.Push
+      title="New Rule"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<RuleForm onSave={loadRules} />}
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={withAccountName("Recurring Bookings", account)}
+      searchBarPlaceholder="Search recurring bookings..."
+    >
+      {rules.length === 0 && !isLoading ? (
+        <List.EmptyView
+          icon={Icon.Repeat}
+          title="No Recurring Bookings"
+          description="Add a rule like every Tuesday at 20:00."
+          actions={<ActionPanel>{newRuleAction}</ActionPanel>}
+        />
+      ) : (
+        rules.map((rule) => (
+          <List.Section
+            key={rule.id}
+            title={getRuleTitle(rule)}
+            subtitle={`${getCenterName(rule.unitId)} · ${formatDuration(rule.duration)}`}
+          >
+            {(occurrences.get(rule.id) ?? []).map((occurrence) => {
+              let icon: Icon;
+              let tint: Color;
+              let subtitle: string;
+
+              if (occurrence.status === "booked") {
+                icon = Icon.CheckCircle;
+                tint = Color.Green;
+                subtitle = `Booked · ${occurrence.rental.court}`;
+              } else if (occurrence.status === "open") {
+                icon = Icon.Circle;
+                tint = Color.Orange;
+                subtitle = `Open · Court ${occurrence.slot.courtNumber}`;
+              } else {
+                icon = Icon.XMarkCircle;
+                tint = Color.Red;
+                subtitle = occurrence.reason;
+              }
+
+              return (
+                <List.Item
+                  key={`${rule.id}_${occurrence.date.toISOString()}`}
+                  icon={{ source: icon, tintColor: tint }}
+                  title={`${formatDateDisplay(occurrence.date)} ${rule.time}`}
+                  subtitle={subtitle}
+                  actions={
+                    <ActionPanel>
+                      <Action
+                        title="Book All Missing"
+                        icon={Icon.CheckCircle}
+                        onAction={() => bookOccurrences(allItems)}
+                      />
+                      {occurrence.status === "open" && (
+                        <Action
+                          title="Book This Occurrence"
+                          icon={Icon.Calendar}
+                          onAction={() => bookOccurrences([{ rule, occurrence }])}
+                        />
+                      )}
+                      {newRuleAction}
+                      <Action
+                        title="Reload"
+                        icon={Icon.ArrowClockwise}
+                        shortcut={{ modifiers: ["cmd"], key: "r" }}
+                        onAction={loadRules}
+                      />
+                      <Action
+                        title="Delete Rule"
+                        icon={Icon.Trash}
+                        style={Action.Style.Destructive}
+                        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                        onAction={() => handleDelete(rule)}
+                      />
+                    </ActionPanel>
+                  }
+                />
+              );
+            })}
+          </List.Section>
+        ))
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,160 @@
+import { List, showToast, Toast, Icon, Color, Action, ActionPanel } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { fetchMyRents } from "./services/api";
+import { toApiError } from "./services/errors";
+import { withAccountName } from "./services/accounts";
+import { HistoryEntry, getEntryStart, getRentalHistory, syncRentalHistory } from "./services/history";
+import { useActiveAccount } from "./hooks/use-active-account";
+import { parseMyRents } from "./utils/parser";
+import { computeRentalStats, StatGroup } from "./utils/rental-stats";
+import { getWeekday } from "./utils/date";
+
+type ViewMode = "stats" | "history";
+
+const FAVORITES_SHOWN = 5;
+
+const STATUS_TAGS: Record<HistoryEntry["status"], { value: string; color: Color }> = {
+  upcoming: { value: "Upcoming", color: Color.Blue },
+  played: { value: "Played", color: Color.Green },
+  cancelled: { value: "Cancelled", color: Color.Red },
+};
+
+function formatHours(hours: number): string {
+  return `${Number(hours.toFixed(1))}h`;
+}
+
+function StatSection({ title, groups, onRefresh }: { title: string; groups: StatGroup[]; onRefresh: () => void }) {
+  return (
+    <List.Section title={title}>
+      {groups.map((group) => (
+        <List.Item
+          key={group.label}
+          title={group.label}
+          accessories={[
+            { text: `${group.sessions} session${group.sessions === 1 ? "" : "s"}` },
+            { tag: formatHours(group.hours) },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={onRefresh} />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List.Section>
+  );
+}
+
+export default function Command() {
+  const { account, credentials } = useActiveAccount();
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [mode, setMode] = useState<ViewMode>("stats");
+  const [isLoading, setIsLoading] = useState(true);
+
+  async function loadHistory() {
+    if (!account || !credentials) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    // Show what is stored right away; the site only lists recent rentals anyway
+    setHistory(await getRentalHistory(account));
+
+    try {
+      const rentals = parseMyRents(await fetchMyRents(credentials));
+      setHistory(await syncRentalHistory(account, rentals));
+    } catch (error) {
+      console.error("Error syncing rental history:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to refresh history",
+        message: `Showing stored history. ${toApiError(error).message}`,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadHistory();
+  }, [account?.id]);
+
+  const stats = computeRentalStats(history);
+  const actions = (
+    <ActionPanel>
+      <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={loadHistory} />
+    </ActionPanel>
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={withAccountName("Rental History", account)}
+      searchBarPlaceholder={mode === "stats" ? "Filter statistics..." : "Search your rentals..."}
+      searchBarAccessory={
+        <List.Dropdown tooltip="View" value={mode} onChange={(value) => setMode(value as ViewMode)}>
+          <List.Dropdown.Item title="Statistics" value="stats" />
+          <List.Dropdown.Item title="History" value="history" />
+        </List.Dropdown>
+      }
+    >
+      {history.length === 0 && !isLoading ? (
+        <List.EmptyView
+          icon={Icon.Clock}
+          title="No Rental History"
+          description="Rentals are recorded here as they appear on the site."
+          actions={actions}
+        />
+      ) : mode === "stats" ? (
+        <>
+          <List.Section title="Overview">
+            <List.Item
+              icon={Icon.CheckCircle}
+              title="Sessions Played"
+              accessories={[{ text: String(stats.sessionsPlayed) }]}
+              actions={actions}
+            />
+            <List.Item
+              icon={Icon.Clock}
+              title="Hours Played"
+              accessories={[{ text: formatHours(stats.hoursPlayed) }]}
+              actions={actions}
+            />
+            <List.Item
+              icon={Icon.XMarkCircle}
+              title="Cancellation Rate"
+              accessories={[{ text: `${Math.round(stats.cancellationRate * 100)}%` }]}
+              actions={actions}
+            />
+          </List.Section>
+          <StatSection title="Hours per Month" groups={stats.hoursByMonth} onRefresh={loadHistory} />
+          <StatSection
+            title="Favorite Courts"
+            groups={stats.favoriteCourts.slice(0, FAVORITES_SHOWN)}
+            onRefresh={loadHistory}
+          />
+          <StatSection
+            title="Favorite Times"
+            groups={stats.favoriteTimes.slice(0, FAVORITES_SHOWN)}
+            onRefresh={loadHistory}
+          />
+          <StatSection title="Weekdays" groups={stats.byWeekday} onRefresh={loadHistory} />
+          <StatSection title="Centers" groups={stats.byCenter} onRefresh={loadHistory} />
+        </>
+      ) : (
+        history.map((entry) => (
+          <List.Item
+            key={entry.id}
+            icon={{ source: Icon.Calendar, tintColor: STATUS_TAGS[entry.status].color }}
+            title={`${getWeekday(getEntryStart(entry))}, ${entry.date}`}
+            subtitle={entry.time}
+            keywords={[entry.court, entry.status]}
+            accessories={[{ tag: { value: entry.court, color: Color.Blue } }, { tag: STATUS_TAGS[entry.status] }]}
+            actions={actions}
+          />
+        ))
+      )}
+    </List>
+  );
+}
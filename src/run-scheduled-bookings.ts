@@ -0,0 +1,166 @@
+import { showHUD, environment, LaunchType } from "@raycast/api";
+import { searchCourts } from "./services/api";
+import { AuthCredentials, getAuthTokens } from "./services/auth";
+import { Account, getAccountLabel, resolveAccount, toCredentials } from "./services/accounts";
+import { bookCourt, mayHaveBooked, pickPreferredSlot } from "./services/booking";
+import { toApiError } from "./services/errors";
+import { pruneExpiredSchedules, updateSchedule, ScheduledBooking, ScheduleResult } from "./services/schedules";
+import { getCenterName } from "./utils/centers";
+import { parseDate } from "./utils/date";
+
+const LOGIN_LEAD_MS = 2 * 60 * 1000; // Log in this long before reservations open
+const ARM_WINDOW_MS = 55 * 1000; // Wait for the opening when it is this close (runs are 1 minute apart)
+const RETRY_DURATION_MS = 45 * 1000; // Keep retrying this long after the opening
+const RETRY_INTERVAL_MS = 1000;
+const STALE_RUN_MS = 3 * 60 * 1000; // A run older than this is assumed to have crashed
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Retry search and booking in a tight loop until a court is obtained or time runs out
+ * Only searches, court selections and refused orders are retried: once an order was sent without
+ * a confirmation, another attempt could book a second court, so the loop stops as "unverified"
+ */
+export async function runBookingLoop(
+  schedule: ScheduledBooking,
+  credentials: AuthCredentials
+): Promise<{ status: "booked" | "failed" | "unverified"; result: Omit<ScheduleResult, "finishedAt"> }> {
+  const date = parseDate(schedule.date);
+  const giveUpAt = Math.max(Date.now(), new Date(schedule.opensAt).getTime()) + RETRY_DURATION_MS;
+  let attempts = 0;
+  let lastMessage = "No court became available";
+
+  while (Date.now() < giveUpAt) {
+    attempts++;
+
+    let availability;
+    try {
+      availability = await searchCourts(
+        { unitId: schedule.unitId, date, startHour: schedule.time, duration: schedule.duration },
+        credentials
+      );
+    } catch (error) {
+      lastMessage = toApiError(error).message;
+      await sleep(RETRY_INTERVAL_MS);
+      continue;
+    }
+
+    const slot =
+      availability.status === "available"
+        ? pickPreferredSlot(availability.slots, schedule.preferredCourts, schedule.anyCourt)
+        : undefined;
+
+    if (slot) {
+      const booking = await bookCourt(
+        {
+          unitId: schedule.unitId,
+          courtId: slot.courtId,
+          courtNumber: slot.courtNumber,
+          date,
+          startHour: schedule.time,
+          duration: schedule.duration,
+        },
+        credentials
+      );
+
+      if (booking.success) {
+        return { status: "booked", result: { message: booking.message, courtNumber: slot.courtNumber, attempts } };
+      }
+
+      if (mayHaveBooked(booking)) {
+        return { status: "unverified", result: { message: booking.message, courtNumber: slot.courtNumber, attempts } };
+      }
+
+      lastMessage = booking.message;
+    } else if (availability.status === "available") {
+      lastMessage = "None of the preferred courts were free";
+    }
+
+    await sleep(RETRY_INTERVAL_MS);
+  }
+
+  return { status: "failed", result: { message: lastMessage, attempts } };
+}
+
+/**
+ * Background runner that fires scheduled bookings when reservations open
+ * Every due schedule is logged in first, then all of them wait for their opening and retry side by side,
+ * so schedules opening at the same moment do not queue behind each other
+ */
+export default async function Command() {
+  const schedules = await pruneExpiredSchedules();
+  const reports: string[] = [];
+  const due: Array<{ schedule: ScheduledBooking; account: Account; credentials: AuthCredentials }> = [];
+
+  for (const schedule of schedules) {
+    if (schedule.status === "booked" || schedule.status === "failed" || schedule.status === "unverified") {
+      continue;
+    }
+
+    const now = Date.now();
+    if (
+      schedule.status === "running" &&
+      schedule.startedAt &&
+      now - new Date(schedule.startedAt).getTime() < STALE_RUN_MS
+    ) {
+      continue;
+    }
+
+    const untilOpening = new Date(schedule.opensAt).getTime() - now;
+
+    if (untilOpening > LOGIN_LEAD_MS) {
+      continue;
+    }
+
+    const account = await resolveAccount(schedule.accountId);
+    if (!account) {
+      // Never book on behalf of someone else
+      const message = "Its account was removed";
+      await updateSchedule(schedule.id, {
+        status: "failed",
+        result: { message, attempts: 0, finishedAt: new Date().toISOString() },
+      });
+      reports.push(`Skipped ${getCenterName(schedule.unitId)} ${schedule.date} ${schedule.time}: ${message}`);
+      continue;
+    }
+
+    const credentials = toCredentials(account);
+
+    // Log in ahead of time so the first attempt does not pay for it
+    await getAuthTokens(credentials);
+
+    if (untilOpening > ARM_WINDOW_MS) {
+      continue;
+    }
+
+    await updateSchedule(schedule.id, { status: "running", startedAt: new Date().toISOString() });
+    due.push({ schedule, account, credentials });
+  }
+
+  const outcomes = await Promise.all(
+    due.map(async ({ schedule, account, credentials }) => {
+      await sleep(Math.max(0, new Date(schedule.opensAt).getTime() - Date.now()));
+      return { schedule, account, ...(await runBookingLoop(schedule, credentials)) };
+    })
+  );
+
+  for (const { schedule, account, status, result } of outcomes) {
+    await updateSchedule(schedule.id, { status, result: { ...result, finishedAt: new Date().toISOString() } });
+
+    const label = getAccountLabel(`${getCenterName(schedule.unitId)} ${schedule.date} ${schedule.time}`, account);
+    reports.push(
+      status === "booked"
+        ? `Booked court ${result.courtNumber} at ${label} (attempt ${result.attempts})`
+        : status === "unverified"
+          ? `Court ${result.courtNumber} at ${label} may be booked, check your rentals: ${result.message}`
+          : `Could not book ${label} after ${result.attempts} attempts: ${result.message}`
+    );
+  }
+
+  if (reports.length > 0) {
+    await showHUD(`🎾 ${reports.join(" · ")}`);
+  } else if (environment.launchType === LaunchType.UserInitiated) {
+    const armed = schedules.filter((s) => s.status === "armed").length;
+    await showHUD(armed > 0 ? `${armed} scheduled booking${armed > 1 ? "s" : ""} armed` : "No scheduled bookings");
+  }
+}
@@ -0,0 +1,244 @@
+import {
+  List,
+  Form,
+  Icon,
+  Color,
+  Action,
+  ActionPanel,
+  showToast,
+  Toast,
+  getPreferenceValues,
+  useNavigation,
+  confirmAlert,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import {
+  addSchedule,
+  getDefaultOpensAt,
+  getScheduleStart,
+  pruneExpiredSchedules,
+  removeSchedule,
+  ScheduledBooking,
+} from "./services/schedules";
+import { Account, DEFAULT_ACCOUNT_ID, getAccounts, withAccountName } from "./services/accounts";
+import { useActiveAccount } from "./hooks/use-active-account";
+import { TENNIS_CENTERS, DURATIONS } from "./constants";
+import { getCenterName } from "./utils/centers";
+import { formatDate, formatDuration, formatDisplayDateTime, getToday, isValidTime } from "./utils/date";
+
+interface Preferences {
+  tennisCenter: string;
+}
+
+function ScheduleForm({ account, onSave }: { account: Account; onSave: () => void }) {
+  const preferences = getPreferenceValues<Preferences>();
+  const { pop } = useNavigation();
+  const [date, setDate] = useState<Date | null>(null);
+  const [opensAt, setOpensAt] = useState<Date | null>(null);
+  const [timeError, setTimeError] = useState<string | undefined>();
+
+  function handleDateChange(newDate: Date | null) {
+    setDate(newDate);
+    setOpensAt(newDate ? getDefaultOpensAt(newDate) : null);
+  }
+
+  async function handleSubmit(values: {
+    unitId: string;
+    time: string;
+    duration: string;
+    preferredCourts: string;
+    anyCourt: boolean;
+  }) {
+    if (!isValidTime(values.time)) {
+      setTimeError("Use HH:mm, e.g. 20:00");
+      return;
+    }
+
+    if (!date || !opensAt) {
+      await showToast({ style: Toast.Style.Failure, title: "Pick a date and an opening time" });
+      return;
+    }
+
+    const preferredCourts = values.preferredCourts
+      .split(/[\s,]+/)
+      .map((c) => parseInt(c, 10))
+      .filter((c) => !isNaN(c));
+
+    await addSchedule({
+      accountId: account.id,
+      unitId: values.unitId,
+      date: formatDate(date),
+      time: values.time,
+      duration: Number(values.duration),
+      preferredCourts,
+      anyCourt: values.anyCourt,
+      opensAt: opensAt.toISOString(),
+    });
+
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Booking scheduled",
+      message: `Will try at ${opensAt.toLocaleString()}`,
+    });
+
+    onSave();
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={withAccountName("Schedule Booking", account)}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Schedule Booking" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="unitId" title="Tennis Center" defaultValue={preferences.tennisCenter}>
+        {TENNIS_CENTERS.map((center) => (
+          <Form.Dropdown.Item key={center.id} value={center.id} title={`${center.nameEn} (${center.name})`} />
+        ))}
+      </Form.Dropdown>
+      <Form.DatePicker
+        id="date"
+        title="Date"
+        type={Form.DatePicker.Type.Date}
+        min={getToday()}
+        value={date}
+        onChange={handleDateChange}
+      />
+      <Form.TextField
+        id="time"
+        title="Start Time"
+        placeholder="20:00"
+        error={timeError}
+        onChange={() => setTimeError(undefined)}
+      />
+      <Form.Dropdown id="duration" title="Duration" defaultValue="1">
+        {DURATIONS.map((d) => (
+          <Form.Dropdown.Item key={d} value={String(d)} title={formatDuration(d)} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="preferredCourts"
+        title="Preferred Courts"
+        placeholder="4, 2"
+        info="Court numbers in order of preference"
+      />
+      <Form.Checkbox id="anyCourt" label="Otherwise book any free court" defaultValue={true} />
+      <Form.DatePicker
+        id="opensAt"
+        title="Reservations Open"
+        info="When the slot enters the booking window. Defaults to midnight of the first bookable day."
+        value={opensAt}
+        onChange={setOpensAt}
+      />
+    </Form>
+  );
+}
+
+function getStatus(schedule: ScheduledBooking): { icon: Icon; tint: Color; text: string } {
+  switch (schedule.status) {
+    case "booked":
+      return { icon: Icon.CheckCircle, tint: Color.Green, text: `Booked court ${schedule.result?.courtNumber}` };
+    case "failed":
+      return { icon: Icon.XMarkCircle, tint: Color.Red, text: "Not obtained" };
+    case "unverified":
+      return { icon: Icon.QuestionMarkCircle, tint: Color.Yellow, text: "Check your rentals" };
+    case "running":
+      return { icon: Icon.Bolt, tint: Color.Orange, text: "Running" };
+    default:
+      return { icon: Icon.Alarm, tint: Color.Blue, text: "Armed" };
+  }
+}
+
+export default function Command() {
+  const { account } = useActiveAccount();
+  const [schedules, setSchedules] = useState<ScheduledBooking[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  async function loadSchedules() {
+    const active = await pruneExpiredSchedules();
+    active.sort((a, b) => getScheduleStart(a).getTime() - getScheduleStart(b).getTime());
+    setSchedules(active);
+    setAccounts(await getAccounts());
+    setIsLoading(false);
+  }
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  async function handleRemove(schedule: ScheduledBooking) {
+    const confirmed = await confirmAlert({
+      title: "Remove Scheduled Booking",
+      message: `Stop trying to book ${schedule.date} at ${schedule.time}?`,
+      primaryAction: { title: "Remove" },
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    await removeSchedule(schedule.id);
+    await loadSchedules();
+  }
+
+  const scheduleAction = account && (
+    <Action.Push
+      title="Schedule Booking"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<ScheduleForm account={account} onSave={loadSchedules} />}
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={withAccountName("Scheduled Bookings", account)}
+      searchBarPlaceholder="Search scheduled bookings..."
+    >
+      {schedules.length === 0 && !isLoading ? (
+        <List.EmptyView
+          icon={Icon.Alarm}
+          title="No Scheduled Bookings"
+          description="Schedule a booking to fire the moment reservations open."
+          actions={<ActionPanel>{scheduleAction}</ActionPanel>}
+        />
+      ) : (
+        schedules.map((schedule) => {
+          const status = getStatus(schedule);
+          const owner = accounts.find((a) => a.id === (schedule.accountId ?? DEFAULT_ACCOUNT_ID));
+
+          return (
+            <List.Item
+              key={schedule.id}
+              icon={{ source: status.icon, tintColor: status.tint }}
+              title={formatDisplayDateTime(getScheduleStart(schedule), schedule.time)}
+              subtitle={`${getCenterName(schedule.unitId)} · ${formatDuration(schedule.duration)}`}
+              accessories={[
+                ...(owner && owner.id !== account?.id ? [{ icon: Icon.Person, text: owner.name }] : []),
+                { text: `Opens ${new Date(schedule.opensAt).toLocaleString()}` },
+                { tag: { value: status.text, color: status.tint }, tooltip: schedule.result?.message },
+              ]}
+              actions={
+                <ActionPanel>
+                  {scheduleAction}
+                  <Action
+                    title="Remove"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => handleRemove(schedule)}
+                  />
+                </ActionPanel>
+              }
+            />
+          );
+        })
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,142 @@
+import { LocalStorage, getPreferenceValues } from "@raycast/api";
+import { AuthCredentials, clearSession } from "./auth";
+import { removeAccountSchedules } from "./schedules";
+import { removeAccountWatches } from "./watches";
+
+const STORAGE_KEY_ACCOUNTS = "itec_accounts";
+const STORAGE_KEY_ACTIVE_ACCOUNT = "itec_active_account";
+
+/**
+ * Id of the account configured in the extension preferences
+ */
+export const DEFAULT_ACCOUNT_ID = "default";
+
+interface Preferences {
+  email: string;
+  userId: string;
+}
+
+/**
+ * An ITEC account that calls can be made on behalf of
+ */
+export interface Account {
+  id: string;
+  name: string; // Shown in navigation titles, e.g. "Dana"
+  email: string;
+  userId: string; // Israeli ID number
+}
+
+/**
+ * The account from the extension preferences, always available
+ */
+export function getDefaultAccount(): Account {
+  const preferences = getPreferenceValues<Preferences>();
+  return { id: DEFAULT_ACCOUNT_ID, name: "Me", email: preferences.email, userId: preferences.userId };
+}
+
+async function getStoredAccounts(): Promise<Account[]> {
+  try {
+    const stored = await LocalStorage.getItem<string>(STORAGE_KEY_ACCOUNTS);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error reading accounts:", error);
+    return [];
+  }
+}
+
+async function storeAccounts(accounts: Account[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY_ACCOUNTS, JSON.stringify(accounts));
+}
+
+/**
+ * Get all accounts, the preferences account first
+ */
+export async function getAccounts(): Promise<Account[]> {
+  return [getDefaultAccount(), ...(await getStoredAccounts())];
+}
+
+/**
+ * Get an account by id
+ */
+export async function getAccountById(id: string): Promise<Account | undefined> {
+  return (await getAccounts()).find((account) => account.id === id);
+}
+
+/**
+ * Add an account. Fails if an account with the same ID number already exists
+ */
+export async function addAccount(account: Omit<Account, "id">): Promise<Account> {
+  const accounts = await getAccounts();
+  if (accounts.some((a) => a.userId === account.userId)) {
+    throw new Error(`An account with ID number ${account.userId} already exists`);
+  }
+
+  const newAccount: Account = { ...account, id: `${account.userId}_${Date.now()}` };
+  await storeAccounts([...(await getStoredAccounts()), newAccount]);
+  return newAccount;
+}
+
+/**
+ * Remove an account with its stored session, watches and scheduled bookings, so nothing is booked
+ * on its behalf afterwards. The preferences account cannot be removed
+ */
+export async function removeAccount(id: string): Promise<void> {
+  const accounts = await getStoredAccounts();
+  const account = accounts.find((a) => a.id === id);
+  if (!account) {
+    return;
+  }
+
+  await storeAccounts(accounts.filter((a) => a.id !== id));
+  await clearSession(toCredentials(account));
+  await removeAccountWatches(id);
+  await removeAccountSchedules(id);
+
+  if ((await LocalStorage.getItem<string>(STORAGE_KEY_ACTIVE_ACCOUNT)) === id) {
+    await LocalStorage.removeItem(STORAGE_KEY_ACTIVE_ACCOUNT);
+  }
+}
+
+/**
+ * Get the account that commands act on, falling back to the preferences account
+ */
+export async function getActiveAccount(): Promise<Account> {
+  const activeId = await LocalStorage.getItem<string>(STORAGE_KEY_ACTIVE_ACCOUNT);
+  return (activeId && (await getAccountById(activeId))) || getDefaultAccount();
+}
+
+/**
+ * Switch the account that commands act on
+ */
+export async function setActiveAccount(id: string): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY_ACTIVE_ACCOUNT, id);
+}
+
+/**
+ * Resolve the account a stored item was created for: the preferences account when it was created
+ * before accounts existed, undefined when its account has since been removed
+ */
+export async function resolveAccount(id: string | undefined): Promise<Account | undefined> {
+  return id ? getAccountById(id) : getDefaultAccount();
+}
+
+/**
+ * Credentials for API calls on behalf of an account
+ */
+export function toCredentials(account: Account): AuthCredentials {
+  return { email: account.email, userId: account.userId };
+}
+
+/**
+ * Suffix a label with the account name, unless it is the preferences account
+ */
+export function getAccountLabel(label: string, account: Account): string {
+  return account.id === DEFAULT_ACCOUNT_ID ? label : `${label} (${account.name})`;
+}
+
+/**
+ * Navigation title showing which account a command acts on
+ */
+export function withAccountName(title: string, account: Account | null): string {
+  return account ? `${title} · ${account.name}` : title;
+}
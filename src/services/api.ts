@@ -1,14 +1,27 @@
-import fetch from "node-fetch";
+import fetch, { RequestInit, Response } from "node-fetch";
 import { Cache } from "@raycast/api";
-import { getAuthTokens, AuthCredentials } from "./auth";
-import { parseCourtAvailability, CourtAvailability } from "../utils/parser";
+import { getAuthTokens, getLoginFailure, refreshAuthTokens, AuthCredentials, AuthTokens } from "./auth";
+import { ApiError } from "./errors";
+import {
+  parseCourtAvailability,
+  parseTimeSlots,
+  extractHtmlFromResponse,
+  parseCancellationOutcome,
+  CancellationOutcome,
+  CourtAvailability,
+} from "../utils/parser";
 import { formatDate } from "../utils/date";
+import { getSiteUrl } from "./site";
 
-const BASE_URL = "https://center.tennis.org.il";
-const SEARCH_COURT_URL = `${BASE_URL}/self_services/search_court.js`;
-const SET_TIME_BY_UNIT_URL = `${BASE_URL}/self_services/set_time_by_unit`;
-const SELECT_COURT_URL = `${BASE_URL}/self_services/select_court_invitation.js`;
-const MY_RENTS_URL = `${BASE_URL}/self_services/my_rents`;
+const SEARCH_COURT_PATH = "/self_services/search_court.js";
+const SET_TIME_BY_UNIT_PATH = "/self_services/set_time_by_unit";
+const SELECT_COURT_PATH = "/self_services/select_court_invitation.js";
+const MY_RENTS_PATH = "/self_services/my_rents";
+const LOGIN_PATH = "/self_services/login";
+
+const MAX_ATTEMPTS = 3; // Attempts per request for transient failures (network, rate limiting, 5xx)
+const BACKOFF_BASE_MS = 500; // Doubled on every retry
+const MAX_BACKOFF_MS = 5000;
 
 // Cache for time slots by unit and weekday
 const timeSlotsCache = new Cache();
@@ -20,20 +33,150 @@ export interface SearchCourtParams {
   duration: number; // 1, 1.5, 2, or 3
 }
 
+/**
+ * Get authentication tokens, failing with an auth error if login is not possible
+ */
+async function requireTokens(credentials: AuthCredentials): Promise<AuthTokens> {
+  const tokens = await getAuthTokens(credentials);
+  if (!tokens) {
+    throw toLoginError(credentials, "Failed to authenticate");
+  }
+  return tokens;
+}
+
+/**
+ * Describe why logging in failed, using the reason recorded by the login flow when there is one
+ */
+function toLoginError(credentials: AuthCredentials, fallbackReason: string): ApiError {
+  const failure = getLoginFailure(credentials);
+
+  if (!failure) {
+    return new ApiError({ kind: "auth", reason: fallbackReason });
+  }
+  if (failure.reason === "network") {
+    return new ApiError({ kind: "network", cause: failure.message });
+  }
+  return new ApiError({ kind: "auth", reason: failure.message, cause: failure.reason });
+}
+
+/**
+ * Log in again after the session expired (concurrent requests share the login)
+ */
+async function relogin(credentials: AuthCredentials, expiredTokens: AuthTokens): Promise<AuthTokens> {
+  const tokens = await refreshAuthTokens(credentials, expiredTokens);
+  if (!tokens) {
+    throw toLoginError(credentials, "Session expired and logging in again failed");
+  }
+  return tokens;
+}
+
+/**
+ * Check if an error is worth retrying after a short wait
+ */
+function isTransient(error: ApiError): boolean {
+  return (
+    error.details.kind === "network" ||
+    error.details.kind === "rate-limited" ||
+    (error.details.kind === "http" && error.details.status >= 500)
+  );
+}
+
+/**
+ * Delay before the next attempt, honoring Retry-After when the server sends it
+ */
+function getBackoffMs(error: ApiError, attempt: number): number {
+  if (error.details.kind === "rate-limited" && error.details.retryAfterSeconds) {
+    return Math.min(error.details.retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+  }
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Run a request with a valid session
+ * An expired session is renewed once and the request replayed. Transient failures are retried
+ * with backoff only when `retryTransient` is set, since replaying a booking or cancellation
+ * that may have reached the server is not safe.
+ */
+async function withSession<T>(
+  credentials: AuthCredentials,
+  options: { retryTransient: boolean },
+  send: (tokens: AuthTokens) => Promise<T>
+): Promise<T> {
+  let tokens = await requireTokens(credentials);
+  let hasRelogged = false;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await send(tokens);
+    } catch (error) {
+      if (!(error instanceof ApiError)) {
+        throw error;
+      }
+
+      if (error.kind === "session-expired" && !hasRelogged) {
+        hasRelogged = true;
+        tokens = await relogin(credentials, tokens);
+        continue;
+      }
+
+      if (!options.retryTransient || !isTransient(error) || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, getBackoffMs(error, attempt)));
+    }
+  }
+}
+
+/**
+ * Check if a response sends us back to the login page
+ */
+function isLoginResponse(response: Response): boolean {
+  const location = response.headers.get("location") ?? "";
+  return (
+    response.status === 401 ||
+    (response.redirected && response.url.includes(LOGIN_PATH)) ||
+    (response.status === 302 && location.includes(LOGIN_PATH))
+  );
+}
+
+/**
+ * Make a request, turning network failures and error statuses into ApiErrors
+ */
+async function request(url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new ApiError({ kind: "network", cause: error instanceof Error ? error.message : String(error) });
+  }
+
+  if (response.status === 429) {
+    const retryAfter = parseInt(response.headers.get("retry-after") ?? "", 10);
+    throw new ApiError({ kind: "rate-limited", retryAfterSeconds: isNaN(retryAfter) ? undefined : retryAfter });
+  }
+
+  if (isLoginResponse(response)) {
+    throw new ApiError({ kind: "session-expired" });
+  }
+
+  // Other manual redirects are expected by the callers that ask for them
+  if (!response.ok && response.status !== 302) {
+    throw new ApiError({ kind: "http", status: response.status });
+  }
+
+  return response;
+}
+
 /**
  * Search for available courts
+ * Throws an ApiError when the search could not be performed
  */
 export async function searchCourts(
   params: SearchCourtParams,
   credentials: AuthCredentials
-): Promise<CourtAvailability | null> {
-  try {
-    // Get authentication tokens
-    const tokens = await getAuthTokens(credentials);
-    if (!tokens) {
-      throw new Error("Failed to authenticate");
-    }
-
+): Promise<CourtAvailability> {
+  return withSession(credentials, { retryTransient: true }, async (tokens) => {
     // Prepare form data
     const formData = new URLSearchParams();
     formData.append("utf8", "✓");
@@ -45,7 +188,7 @@ export async function searchCourts(
     formData.append("search[duration]", params.duration.toString());
 
     // Make the request
-    const response = await fetch(SEARCH_COURT_URL, {
+    const response = await request(getSiteUrl(SEARCH_COURT_PATH), {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
@@ -54,22 +197,23 @@ export async function searchCourts(
       body: formData.toString(),
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
     const responseText = await response.text();
 
+    // Every search result is rendered into #step-2; anything else is a login page or an unknown format
+    if (!extractHtmlFromResponse(responseText)) {
+      throw new ApiError(
+        responseText.includes(LOGIN_PATH) ? { kind: "session-expired" } : { kind: "parse", endpoint: "search_court.js" }
+      );
+    }
+
     // Parse the response
     return parseCourtAvailability(responseText);
-  } catch (error) {
-    console.error("Error searching courts:", error);
-    return null;
-  }
+  });
 }
 
 /**
  * Search for courts across multiple time slots
+ * Slots that fail to load are left out of the results
  */
 export async function searchMultipleSlots(
   slots: Array<{ date: Date; time: string }>,
@@ -83,18 +227,20 @@ export async function searchMultipleSlots(
   for (const slot of slots) {
     const key = `${formatDate(slot.date)}_${slot.time}`;
 
-    const availability = await searchCourts(
-      {
-        unitId,
-        date: slot.date,
-        startHour: slot.time,
-        duration,
-      },
-      credentials
-    );
+    try {
+      const availability = await searchCourts(
+        {
+          unitId,
+          date: slot.date,
+          startHour: slot.time,
+          duration,
+        },
+        credentials
+      );
 
-    if (availability) {
       results.set(key, availability);
+    } catch (error) {
+      console.error(`Error searching slot ${key}:`, error);
     }
 
     // Small delay to be nice to the server
@@ -134,29 +280,21 @@ export async function fetchTimeSlots(
   }
   // console.log(`[fetchTimeSlots] Cache MISS - fetching from API`);
 
-  try {
-    // Get authentication tokens
-    const tokens = await getAuthTokens(credentials);
-    if (!tokens) {
-      throw new Error("Failed to authenticate");
-    }
-
-    // Format date as YYYY-MM-DD
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const day = String(date.getDate()).padStart(2, "0");
-    const dateStr = `${year}-${month}-${day}`;
-
-    // console.log(`[fetchTimeSlots] Request params: unit_id=${unitId}, date=${dateStr}, court_type=1`);
-
-    // Prepare form data
-    const formData = new URLSearchParams();
-    formData.append("unit_id", unitId);
-    formData.append("date", dateStr);
-    formData.append("court_type", "1");
-
-    // Make the request
-    const response = await fetch(SET_TIME_BY_UNIT_URL, {
+  // Format date as YYYY-MM-DD
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  const dateStr = `${year}-${month}-${day}`;
+
+  // Prepare form data
+  const formData = new URLSearchParams();
+  formData.append("unit_id", unitId);
+  formData.append("date", dateStr);
+  formData.append("court_type", "1");
+
+  // Make the request
+  const responseText = await withSession(credentials, { retryTransient: true }, async (tokens) => {
+    const response = await request(getSiteUrl(SET_TIME_BY_UNIT_PATH), {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
@@ -165,154 +303,51 @@ export async function fetchTimeSlots(
       body: formData.toString(),
     });
 
-    if (!response.ok) {
-      // console.log(`[fetchTimeSlots] HTTP error! status: ${response.status}`);
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const responseText = await response.text();
-    // console.log(`[fetchTimeSlots] Response length: ${responseText.length} chars`);
-    // console.log(`[fetchTimeSlots] Full response:`, responseText);
-    
-    // Find the start_hour section
-    const startHourIndex = responseText.indexOf("start_hour_select");
-    if (startHourIndex !== -1) {
-      // console.log(`[fetchTimeSlots] start_hour section:`, responseText.substring(startHourIndex, startHourIndex + 1000));
-    }
-
-    // Parse the JavaScript response to extract time slots
-    const timeSlots = parseTimeSlots(responseText);
-    // console.log(`[fetchTimeSlots] Parsed ${timeSlots.length} time slots:`, timeSlots);
-
-    // Cache the result
-    timeSlotsCache.set(cacheKey, JSON.stringify(timeSlots));
-    // console.log(`[fetchTimeSlots] Cached result for key: ${cacheKey}`);
+    return await response.text();
+  });
 
-    return timeSlots;
-  } catch (error) {
-    console.error("Error fetching time slots:", error);
-    // Return empty array on error
-    return [];
+  // The response must at least contain the start hour select, even when no hours are offered
+  if (!responseText.includes("start_hour")) {
+    throw new ApiError({ kind: "parse", endpoint: "set_time_by_unit" });
   }
-}
 
-/**
- * Parse time slots from the jQuery HTML response
- * Extracts all available time slots, filtering to show half-hour slots only when
- * the corresponding full hour is not available
- */
-function parseTimeSlots(responseText: string): string[] {
-  const allSlots: string[] = [];
-
-  const patterns = [
-    // 1. Matches escaped quotes: value=\"08:00\" (This is what your input contains)
-    // We need strict matching for \d{2}:\d{2} to avoid matching value="1" (the court type)
-    new RegExp('value=\\\\"(\\d{2}:\\d{2})\\\\"', 'g'), 
-    
-    // 2. Matches standard quotes: value="08:00" (Fallback for standard HTML)
-    new RegExp('value="(\\d{2}:\\d{2})"', 'g'),
-    
-    // 3. Matches single quotes: value='08:00'
-    new RegExp("value='(\\d{2}:\\d{2})'", 'g'),
-  ];
-
-  for (let i = 0; i < patterns.length; i++) {
-    const pattern = patterns[i];
-    // console.log(`[parseTimeSlots] Trying pattern ${i + 1}: ${pattern}`);
-    
-    pattern.lastIndex = 0; 
-    let match;
-    let matchCount = 0;
-    
-    while ((match = pattern.exec(responseText)) !== null) {
-      matchCount++;
-      const time = match[1];
-      
-      // Check !includes to prevent duplicates
-      if (!allSlots.includes(time)) {
-        allSlots.push(time);
-        // console.log(`[parseTimeSlots] ✓ Found time slot: ${time}`);
-      }
-    }
-    
-    // If we found slots with this pattern, we can stop checking other patterns
-    if (allSlots.length > 0) {
-      // console.log(`[parseTimeSlots] Success with pattern ${i+1}! Found ${allSlots.length} slots`);
-      break;
-    }
-  }
+  // Parse the JavaScript response to extract time slots
+  const timeSlots = parseTimeSlots(responseText);
+  // console.log(`[fetchTimeSlots] Parsed ${timeSlots.length} time slots:`, timeSlots);
 
-  // Filter: include half-hour slots only if the next full hour is not available
-  const filteredSlots: string[] = [];
-  
-  for (const slot of allSlots) {
-    if (slot.endsWith(':00')) {
-      // Always include full hours
-      filteredSlots.push(slot);
-    } else if (slot.endsWith(':30')) {
-      // Include half hour only if the next full hour is NOT in the list
-      const [hours, _] = slot.split(':');
-      const nextHour = String(parseInt(hours) + 1).padStart(2, '0') + ':00';
-      
-      if (!allSlots.includes(nextHour)) {
-        filteredSlots.push(slot);
-        // console.log(`[parseTimeSlots] Including ${slot} because ${nextHour} is not available`);
-      } else {
-        // console.log(`[parseTimeSlots] Skipping ${slot} because ${nextHour} is available`);
-      }
-    }
-  }
+  // Cache the result
+  timeSlotsCache.set(cacheKey, JSON.stringify(timeSlots));
 
-  // console.log(`[parseTimeSlots] Filtered to ${filteredSlots.length} slots:`, filteredSlots);
-  return filteredSlots;
+  return timeSlots;
 }
 
 /**
  * Fetch user's rental history
  */
-export async function fetchMyRents(credentials: AuthCredentials): Promise<string | null> {
-  try {
-    // Get authentication tokens
-    const tokens = await getAuthTokens(credentials);
-    if (!tokens) {
-      throw new Error("Failed to authenticate");
-    }
-
+export async function fetchMyRents(credentials: AuthCredentials): Promise<string> {
+  return withSession(credentials, { retryTransient: true }, async (tokens) => {
     // Make the request
-    const response = await fetch(MY_RENTS_URL, {
+    const response = await request(getSiteUrl(MY_RENTS_PATH), {
       method: "GET",
       headers: {
         Cookie: `_session_id=${tokens.sessionId}`,
       },
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const responseText = await response.text();
-    return responseText;
-  } catch (error) {
-    console.error("Error fetching my rents:", error);
-    return null;
-  }
+    return await response.text();
+  });
 }
 
 /**
- * Cancel a rental allocation
+ * Cancel a rental allocation and report what the site answered
+ * Throws an ApiError when the cancellation request failed
  */
-export async function cancelRent(allocationId: string, credentials: AuthCredentials): Promise<boolean> {
-  try {
-    // Get authentication tokens
-    const tokens = await getAuthTokens(credentials);
-    if (!tokens) {
-      throw new Error("Failed to authenticate");
-    }
-
-    const cancelUrl = `${BASE_URL}/self_services/cancel_rent_allocation/${allocationId}.js`;
+export async function cancelRent(allocationId: string, credentials: AuthCredentials): Promise<CancellationOutcome> {
+  const cancelUrl = getSiteUrl(`/self_services/cancel_rent_allocation/${allocationId}.js`);
 
+  return withSession(credentials, { retryTransient: false }, async (tokens) => {
     // Make the POST request to cancel
-    const response = await fetch(cancelUrl, {
+    const response = await request(cancelUrl, {
       method: "POST",
       headers: {
         Cookie: `_session_id=${tokens.sessionId}`,
@@ -320,15 +355,14 @@ export async function cancelRent(allocationId: string, credentials: AuthCredenti
       },
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    const responseText = await response.text();
+
+    if (responseText.includes(LOGIN_PATH)) {
+      throw new ApiError({ kind: "session-expired" });
     }
 
-    return true;
-  } catch (error) {
-    console.error("Error canceling rent:", error);
-    return false;
-  }
+    return parseCancellationOutcome(responseText, allocationId);
+  });
 }
 
 /**
@@ -341,50 +375,48 @@ export interface SelectCourtParams {
   endTime: string; // Format: YYYY-MM-DD HH:mm:ss UTC
 }
 
-export async function selectCourt(
-  params: SelectCourtParams,
-  credentials: AuthCredentials
-): Promise<string | null> {
-  try {
-    // Get authentication tokens
-    const tokens = await getAuthTokens(credentials);
-    if (!tokens) {
-      throw new Error("Failed to authenticate");
-    }
-
-    // Build the URL with query parameters
-    const url = new URL(SELECT_COURT_URL);
-    url.searchParams.append("court_id", params.courtId.toString());
-    url.searchParams.append("duration", params.duration.toString());
-    url.searchParams.append("end_time", params.endTime);
-    url.searchParams.append("start_time", params.startTime);
-
-    // console.log(`[selectCourt] Making POST request to: ${url.toString()}`);
-
-    // Make the POST request - this sets up the selection on the server session
-    const response = await fetch(url.toString(), {
+export async function selectCourt(params: SelectCourtParams, credentials: AuthCredentials): Promise<string> {
+  // Build the URL with query parameters
+  const url = new URL(getSiteUrl(SELECT_COURT_PATH));
+  url.searchParams.append("court_id", params.courtId.toString());
+  url.searchParams.append("duration", params.duration.toString());
+  url.searchParams.append("end_time", params.endTime);
+  url.searchParams.append("start_time", params.startTime);
+
+  // Make the POST request - this sets up the selection on the server session
+  return withSession(credentials, { retryTransient: false }, async (tokens) => {
+    const response = await request(url.toString(), {
       method: "POST",
       headers: {
         Cookie: `_session_id=${tokens.sessionId}`,
         "X-Requested-With": "XMLHttpRequest",
+        "X-CSRF-Token": tokens.authenticityToken,
+        Accept: "text/javascript, application/javascript",
       },
       redirect: "manual",
     });
 
-    if (!response.ok && response.status !== 302) {
-      console.error(`[selectCourt] HTTP error! status: ${response.status}`);
-      return null;
-    }
+    // The response is a jQuery script rendering the order details into #step-3
+    return await response.text();
+  });
+}
 
-    const responseText = await response.text();
-    // console.log(`[selectCourt] Response:`, responseText);
+/**
+ * Complete a court invitation (step 3 -> step 4)
+ * The path and method come from the confirmation link in the step 3 order details
+ */
+export async function completeInvitation(path: string, method: string, credentials: AuthCredentials): Promise<string> {
+  return withSession(credentials, { retryTransient: false }, async (tokens) => {
+    const response = await request(getSiteUrl(path), {
+      method,
+      headers: {
+        Cookie: `_session_id=${tokens.sessionId}`,
+        "X-Requested-With": "XMLHttpRequest",
+        "X-CSRF-Token": tokens.authenticityToken,
+        Accept: "text/javascript, application/javascript, text/html",
+      },
+    });
 
-    // Return the court invitation page
-    // Unfortunately, the browser won't have our session cookie, so the user
-    // will need to log in on the website to see/complete the booking
-    return `${BASE_URL}/self_services/court_invitation`;
-  } catch (error) {
-    console.error("Error selecting court:", error);
-    return null;
-  }
-}
\ No newline at end of file
+    return await response.text();
+  });
+}
@@ -1,9 +1,17 @@
 import { LocalStorage } from "@raycast/api";
 import fetch from "node-fetch";
+import { parseLoginError } from "../utils/parser";
+import { getSiteUrl } from "./site";
 
-const BASE_URL = "https://center.tennis.org.il";
 const STORAGE_KEY_TOKEN = "itec_auth_token";
 const STORAGE_KEY_SESSION = "itec_session_id";
+const STORAGE_KEY_VALIDATED_AT = "itec_session_validated_at";
+
+const SESSION_TTL_MS = 10 * 60 * 1000; // Trust a validated session this long before checking it again
+
+// Lookups and logins in progress per account, shared by concurrent callers
+const pendingTokens = new Map<string, Promise<AuthTokens | null>>();
+const pendingLogins = new Map<string, Promise<AuthTokens | null>>();
 
 export interface AuthCredentials {
   email: string;
@@ -25,7 +33,7 @@ async function needsLogin(sessionId?: string): Promise<boolean> {
       headers["Cookie"] = `_session_id=${sessionId}`;
     }
 
-    const response = await fetch(`${BASE_URL}/self_services/court_invitation`, {
+    const response = await fetch(getSiteUrl("/self_services/court_invitation"), {
       method: "GET",
       headers,
       redirect: "manual",
@@ -66,39 +74,93 @@ function extractSessionId(setCookieHeader: string | string[] | undefined): strin
 }
 
 /**
- * Get authenticity token from the login page
+ * Why a login attempt failed
  */
-async function getAuthenticityTokenFromLoginPage(): Promise<string | null> {
-  try {
-    const response = await fetch(`${BASE_URL}/self_services/login`);
-    const html = await response.text();
-    return extractAuthenticityToken(html);
-  } catch (error) {
-    console.error("Error fetching login page:", error);
-    return null;
-  }
+export type LoginFailureReason =
+  | "network" // The site could not be reached
+  | "server-error" // The site answered with a 5xx status
+  | "site-changed" // A page did not have the expected structure
+  | "invalid-credentials" // The site rejected the email / ID number pair
+  | "no-session"; // The site accepted the form but did not start a session
+
+export interface LoginFailure {
+  reason: LoginFailureReason;
+  message: string;
 }
 
 /**
- * Perform login and get auth tokens
+ * One stage of the login flow, as shown by the Test Login command
  */
-async function performLogin(credentials: AuthCredentials): Promise<AuthTokens | null> {
+export interface LoginStep {
+  title: string;
+  ok: boolean;
+  detail: string;
+}
+
+export type LoginResult =
+  | { success: true; tokens: AuthTokens; steps: LoginStep[] }
+  | ({ success: false; steps: LoginStep[] } & LoginFailure);
+
+// Most recent login failure per account, cleared by the next successful login
+const loginFailures = new Map<string, LoginFailure>();
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Perform login and get auth tokens, recording the result of every stage
+ */
+async function performLogin(credentials: AuthCredentials, onStep?: (step: LoginStep) => void): Promise<LoginResult> {
+  const steps: LoginStep[] = [];
+  const record = (step: LoginStep) => {
+    steps.push(step);
+    onStep?.(step);
+  };
+  const fail = (reason: LoginFailureReason, message: string): LoginResult => ({
+    success: false,
+    reason,
+    message,
+    steps,
+  });
+
+  // First, get the authenticity token from the login page
+  let loginPage: string;
   try {
-    // First, get the authenticity token from the login page
-    const authenticityToken = await getAuthenticityTokenFromLoginPage();
-    if (!authenticityToken) {
-      throw new Error("Failed to get authenticity token");
+    const response = await fetch(getSiteUrl("/self_services/login"));
+    loginPage = await response.text();
+    record({ title: "Load login page", ok: response.ok, detail: `HTTP ${response.status}` });
+
+    if (response.status >= 500) {
+      return fail("server-error", `The login page failed to load (HTTP ${response.status})`);
     }
+  } catch (error) {
+    record({ title: "Load login page", ok: false, detail: describeError(error) });
+    return fail("network", `Could not reach the ITEC website: ${describeError(error)}`);
+  }
+
+  const authenticityToken = extractAuthenticityToken(loginPage);
+  record({
+    title: "Find authenticity token",
+    ok: !!authenticityToken,
+    detail: authenticityToken ? "Found on the login page" : "No authenticity_token field on the login page",
+  });
+  if (!authenticityToken) {
+    return fail("site-changed", "The login page no longer has the expected form");
+  }
 
-    // Prepare form data
-    const formData = new URLSearchParams();
-    formData.append("utf8", "✓");
-    formData.append("authenticity_token", authenticityToken);
-    formData.append("login", credentials.email);
-    formData.append("p_id", credentials.userId);
+  // Prepare form data
+  const formData = new URLSearchParams();
+  formData.append("utf8", "✓");
+  formData.append("authenticity_token", authenticityToken);
+  formData.append("login", credentials.email);
+  formData.append("p_id", credentials.userId);
 
-    // Perform login
-    const response = await fetch(`${BASE_URL}/self_services/login.js`, {
+  // Perform login
+  let sessionId: string | null;
+  let siteMessage: string | null;
+  try {
+    const response = await fetch(getSiteUrl("/self_services/login.js"), {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
@@ -107,49 +169,96 @@ async function performLogin(credentials: AuthCredentials): Promise<AuthTokens |
       redirect: "manual",
     });
 
-    // Extract session ID from cookies
-    const setCookie = response.headers.get("set-cookie");
-    const sessionId = extractSessionId(setCookie || undefined);
+    siteMessage = parseLoginError(await response.text());
+    record({
+      title: "Submit email and ID number",
+      ok: response.status < 400 && !siteMessage,
+      detail: siteMessage ? `Site says: ${siteMessage}` : `HTTP ${response.status}`,
+    });
 
-    if (!sessionId) {
-      throw new Error("Failed to get session ID from login response");
+    if (response.status >= 500) {
+      return fail("server-error", `The login request failed (HTTP ${response.status})`);
     }
 
-    // Get a fresh authenticity token for subsequent requests
-    const courtInvitationResponse = await fetch(`${BASE_URL}/self_services/court_invitation`, {
+    // Extract session ID from cookies
+    sessionId = extractSessionId(response.headers.get("set-cookie") || undefined);
+  } catch (error) {
+    record({ title: "Submit email and ID number", ok: false, detail: describeError(error) });
+    return fail("network", `Could not reach the ITEC website: ${describeError(error)}`);
+  }
+
+  record({
+    title: "Receive session cookie",
+    ok: !!sessionId,
+    detail: sessionId ? "Received _session_id" : "No _session_id cookie in the login response",
+  });
+  if (!sessionId) {
+    return siteMessage
+      ? fail("invalid-credentials", siteMessage)
+      : fail("no-session", "The login response did not start a session");
+  }
+
+  // Open the booking page with the new session: a redirect back to login means the credentials were rejected
+  let html: string;
+  try {
+    const response = await fetch(getSiteUrl("/self_services/court_invitation"), {
       headers: {
         Cookie: `_session_id=${sessionId}`,
       },
+      redirect: "manual",
     });
 
-    const html = await courtInvitationResponse.text();
-    const newAuthenticityToken = extractAuthenticityToken(html);
-
-    if (!newAuthenticityToken) {
-      // If we can't extract a new token, use the login one
-      return {
-        authenticityToken,
-        sessionId,
-      };
+    const accepted = response.status !== 302;
+    record({
+      title: "Open court booking page",
+      ok: accepted,
+      detail: accepted ? `HTTP ${response.status}` : "Redirected back to the login page",
+    });
+    if (!accepted) {
+      return fail("invalid-credentials", siteMessage ?? "The site did not accept this email and ID number");
     }
 
-    return {
-      authenticityToken: newAuthenticityToken,
-      sessionId,
-    };
+    html = await response.text();
   } catch (error) {
-    console.error("Login error:", error);
-    return null;
+    record({ title: "Open court booking page", ok: false, detail: describeError(error) });
+    return fail("network", `Could not reach the ITEC website: ${describeError(error)}`);
   }
+
+  // Get a fresh authenticity token for subsequent requests, falling back to the login one
+  const newAuthenticityToken = extractAuthenticityToken(html);
+  record({
+    title: "Refresh authenticity token",
+    ok: true,
+    detail: newAuthenticityToken ? "Found on the booking page" : "Not found, reusing the login page token",
+  });
+
+  return {
+    success: true,
+    tokens: { authenticityToken: newAuthenticityToken ?? authenticityToken, sessionId },
+    steps,
+  };
+}
+
+/**
+ * Storage keys of one account's session (accounts are identified by ID number)
+ */
+function getStorageKeys(credentials: AuthCredentials) {
+  return {
+    token: `${STORAGE_KEY_TOKEN}_${credentials.userId}`,
+    session: `${STORAGE_KEY_SESSION}_${credentials.userId}`,
+    validatedAt: `${STORAGE_KEY_VALIDATED_AT}_${credentials.userId}`,
+  };
 }
 
 /**
  * Get stored auth tokens from local storage
  */
-async function getStoredTokens(): Promise<AuthTokens | null> {
+async function getStoredTokens(credentials: AuthCredentials): Promise<AuthTokens | null> {
+  const keys = getStorageKeys(credentials);
+
   try {
-    const token = await LocalStorage.getItem<string>(STORAGE_KEY_TOKEN);
-    const session = await LocalStorage.getItem<string>(STORAGE_KEY_SESSION);
+    const token = await LocalStorage.getItem<string>(keys.token);
+    const session = await LocalStorage.getItem<string>(keys.session);
 
     if (token && session) {
       return {
@@ -164,13 +273,31 @@ async function getStoredTokens(): Promise<AuthTokens | null> {
   return null;
 }
 
+/**
+ * Check if the stored session was validated recently enough to be trusted without a probe
+ */
+async function isRecentlyValidated(credentials: AuthCredentials): Promise<boolean> {
+  const validatedAt = await LocalStorage.getItem<number>(getStorageKeys(credentials).validatedAt);
+  return validatedAt !== undefined && Date.now() - validatedAt < SESSION_TTL_MS;
+}
+
+/**
+ * Remember that the stored session is known to be valid
+ */
+async function markValidated(credentials: AuthCredentials): Promise<void> {
+  await LocalStorage.setItem(getStorageKeys(credentials).validatedAt, Date.now());
+}
+
 /**
  * Store auth tokens in local storage
  */
-async function storeTokens(tokens: AuthTokens): Promise<void> {
+async function storeTokens(credentials: AuthCredentials, tokens: AuthTokens): Promise<void> {
+  const keys = getStorageKeys(credentials);
+
   try {
-    await LocalStorage.setItem(STORAGE_KEY_TOKEN, tokens.authenticityToken);
-    await LocalStorage.setItem(STORAGE_KEY_SESSION, tokens.sessionId);
+    await LocalStorage.setItem(keys.token, tokens.authenticityToken);
+    await LocalStorage.setItem(keys.session, tokens.sessionId);
+    await markValidated(credentials);
   } catch (error) {
     console.error("Error storing tokens:", error);
   }
@@ -179,51 +306,131 @@ async function storeTokens(tokens: AuthTokens): Promise<void> {
 /**
  * Clear stored auth tokens
  */
-async function clearStoredTokens(): Promise<void> {
+async function clearStoredTokens(credentials: AuthCredentials): Promise<void> {
+  const keys = getStorageKeys(credentials);
+
   try {
-    await LocalStorage.removeItem(STORAGE_KEY_TOKEN);
-    await LocalStorage.removeItem(STORAGE_KEY_SESSION);
+    await LocalStorage.removeItem(keys.token);
+    await LocalStorage.removeItem(keys.session);
+    await LocalStorage.removeItem(keys.validatedAt);
   } catch (error) {
     console.error("Error clearing tokens:", error);
   }
 }
 
 /**
- * Get valid auth tokens, performing login if necessary
+ * Share one promise per account between concurrent callers
  */
-export async function getAuthTokens(credentials: AuthCredentials): Promise<AuthTokens | null> {
-  // Try to get stored tokens
-  let tokens = await getStoredTokens();
+function shared(
+  pending: Map<string, Promise<AuthTokens | null>>,
+  credentials: AuthCredentials,
+  run: () => Promise<AuthTokens | null>
+): Promise<AuthTokens | null> {
+  let promise = pending.get(credentials.userId);
+
+  if (!promise) {
+    promise = run().finally(() => {
+      pending.delete(credentials.userId);
+    });
+    pending.set(credentials.userId, promise);
+  }
 
-  if (tokens) {
-    // Check if we need to re-login
-    const shouldLogin = await needsLogin(tokens.sessionId);
+  return promise;
+}
+
+/**
+ * Log in and store the new tokens, sharing one login between concurrent callers
+ */
+function login(credentials: AuthCredentials): Promise<AuthTokens | null> {
+  return shared(pendingLogins, credentials, async () => {
+    await clearStoredTokens(credentials);
+    const result = await performLogin(credentials);
+
+    if (!result.success) {
+      console.error("Login failed:", result.message);
+      loginFailures.set(credentials.userId, { reason: result.reason, message: result.message });
+      return null;
+    }
 
-    if (!shouldLogin) {
-      // Tokens are still valid
+    loginFailures.delete(credentials.userId);
+    await storeTokens(credentials, result.tokens);
+    return result.tokens;
+  });
+}
+
+/**
+ * Resolve stored tokens, probing the session only when it has not been validated within the TTL
+ */
+async function resolveTokens(credentials: AuthCredentials): Promise<AuthTokens | null> {
+  const tokens = await getStoredTokens(credentials);
+
+  if (tokens) {
+    if (await isRecentlyValidated(credentials)) {
       return tokens;
     }
 
-    // Tokens expired, clear them
-    await clearStoredTokens();
+    // Check if we need to re-login
+    if (!(await needsLogin(tokens.sessionId))) {
+      await markValidated(credentials);
+      return tokens;
+    }
   }
 
-  // Perform login to get new tokens
-  tokens = await performLogin(credentials);
+  // Missing or expired tokens: perform login to get new ones
+  return login(credentials);
+}
 
-  if (tokens) {
-    // Store the new tokens
-    await storeTokens(tokens);
-    return tokens;
+/**
+ * Get valid auth tokens for an account, performing login if necessary
+ * The session is only re-validated after the TTL; callers that hit an expired session use refreshAuthTokens
+ */
+export async function getAuthTokens(credentials: AuthCredentials): Promise<AuthTokens | null> {
+  return pendingLogins.get(credentials.userId) ?? shared(pendingTokens, credentials, () => resolveTokens(credentials));
+}
+
+/**
+ * Force a fresh login, e.g. after a request found the session expired
+ * Passing the expired tokens skips the login when another caller has already replaced them
+ */
+export async function refreshAuthTokens(
+  credentials: AuthCredentials,
+  expiredTokens?: AuthTokens
+): Promise<AuthTokens | null> {
+  const pendingLogin = pendingLogins.get(credentials.userId);
+  if (pendingLogin) {
+    return pendingLogin;
   }
 
-  return null;
+  if (expiredTokens) {
+    const stored = await getStoredTokens(credentials);
+    if (stored && stored.sessionId !== expiredTokens.sessionId) {
+      return stored;
+    }
+  }
+
+  return login(credentials);
+}
+
+/**
+ * Forget an account's session, e.g. when the account is removed
+ */
+export async function clearSession(credentials: AuthCredentials): Promise<void> {
+  await clearStoredTokens(credentials);
+}
+
+/**
+ * Why the most recent login of an account failed, if it did
+ */
+export function getLoginFailure(credentials: AuthCredentials): LoginFailure | undefined {
+  return loginFailures.get(credentials.userId);
 }
 
 /**
- * Force a fresh login (useful for testing or token refresh)
+ * Run the login flow without touching the stored session, reporting each stage as it completes
  */
-export async function refreshAuthTokens(credentials: AuthCredentials): Promise<AuthTokens | null> {
-  await clearStoredTokens();
-  return getAuthTokens(credentials);
+export async function testLogin(
+  credentials: AuthCredentials,
+  onStep?: (step: LoginStep) => void
+): Promise<LoginResult> {
+  return performLogin(credentials, onStep);
 }
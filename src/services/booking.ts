@@ -0,0 +1,190 @@
+import { AuthCredentials } from "./auth";
+import { ApiError, toApiError } from "./errors";
+import { searchCourts, selectCourt, completeInvitation } from "./api";
+import { bookCourtAutomatically } from "./puppeteer";
+import { addBookingToCalendarIfEnabled } from "./calendar";
+import { extractStepHtml, parseConfirmationLink, parseBookingOutcome, CourtSlot } from "../utils/parser";
+
+export interface BookingParams {
+  unitId: string; // Tennis center ID
+  courtId: number;
+  courtNumber: number;
+  date: Date;
+  startHour: string; // Format: HH:mm
+  duration: number; // 1, 1.5, 2, or 3
+}
+
+export type BookingMethod = "http" | "browser";
+
+/**
+ * Wizard step at which a booking failed
+ */
+export type BookingStage = "search" | "select" | "confirm" | "verify";
+
+export interface BookingSuccess {
+  success: true;
+  method: BookingMethod;
+  params: BookingParams;
+  message: string;
+}
+
+export interface BookingFailure {
+  success: false;
+  method: BookingMethod;
+  stage: BookingStage;
+  message: string;
+  rejected: boolean; // The site explicitly refused the booking (no point retrying another way)
+  error?: ApiError; // Set when the failure came from the API layer
+}
+
+export type BookingResult = BookingSuccess | BookingFailure;
+
+/**
+ * Pick the slot to book: the first preferred court that is free, else (if allowed) the first free court
+ */
+export function pickPreferredSlot(
+  slots: CourtSlot[],
+  preferredCourts: number[],
+  anyCourt: boolean
+): CourtSlot | undefined {
+  for (const courtNumber of preferredCourts) {
+    const slot = slots.find((s) => s.courtNumber === courtNumber);
+    if (slot) {
+      return slot;
+    }
+  }
+
+  return anyCourt || preferredCourts.length === 0 ? slots[0] : undefined;
+}
+
+/**
+ * Check if a failed booking may still have gone through: the order was sent and the site did not refuse it
+ */
+export function mayHaveBooked(result: BookingFailure): boolean {
+  return !result.rejected && (result.stage === "confirm" || result.stage === "verify");
+}
+
+function failure(stage: BookingStage, message: string, rejected: boolean, error?: ApiError): BookingFailure {
+  return { success: false, method: "http", stage, message, rejected, error };
+}
+
+/**
+ * Book a court with plain HTTP requests, replaying the wizard's form posts:
+ * search (step 1 -> 2), court selection (step 2 -> 3), confirmation (step 3 -> 4)
+ */
+export async function bookCourtViaHttp(params: BookingParams, credentials: AuthCredentials): Promise<BookingResult> {
+  let stage: BookingStage = "search";
+
+  try {
+    // Step 1: Search, which also stores the search on the server session
+    const availability = await searchCourts(
+      {
+        unitId: params.unitId,
+        date: params.date,
+        startHour: params.startHour,
+        duration: params.duration,
+      },
+      credentials
+    );
+
+    const slot = availability.slots.find((s) => s.courtId === params.courtId);
+    if (!slot) {
+      return failure("search", `Court ${params.courtNumber} is no longer available`, true);
+    }
+
+    // Step 2: Select the court
+    stage = "select";
+    const selectResponse = await selectCourt(
+      {
+        courtId: slot.courtId,
+        duration: slot.duration,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+      },
+      credentials
+    );
+
+    const orderHtml = extractStepHtml(selectResponse, "step-3") || selectResponse;
+    const confirmationLink = parseConfirmationLink(orderHtml);
+
+    if (!confirmationLink) {
+      const outcome = parseBookingOutcome(orderHtml);
+      if (outcome.status === "error") {
+        return failure("select", outcome.message || "The site refused the court selection", true);
+      }
+      return failure("select", "Could not find the confirmation link in the order details", false);
+    }
+
+    // Step 3: Confirm the order
+    stage = "confirm";
+    const confirmResponse = await completeInvitation(confirmationLink.path, confirmationLink.method, credentials);
+
+    // Step 4: Verify the result
+    stage = "verify";
+    const resultHtml = extractStepHtml(confirmResponse, "step-4") || confirmResponse;
+    const outcome = parseBookingOutcome(resultHtml);
+
+    if (outcome.status === "error") {
+      return failure("verify", outcome.message || "The site reported an error", true);
+    }
+
+    if (outcome.status === "unknown") {
+      return failure("verify", "Could not verify booking success", false);
+    }
+
+    return {
+      success: true,
+      method: "http",
+      params,
+      message: outcome.message,
+    };
+  } catch (error) {
+    const apiError = toApiError(error);
+    return failure(stage, apiError.message, false, apiError);
+  }
+}
+
+/**
+ * Book over HTTP, falling back to browser automation only when the HTTP pipeline
+ * failed before submitting the order and the site did not refuse the booking
+ * Adds nothing to the calendar, for callers that may still undo the booking
+ */
+export async function bookCourtWithFallback(
+  params: BookingParams,
+  credentials: AuthCredentials
+): Promise<BookingResult> {
+  const result = await bookCourtViaHttp(params, credentials);
+
+  // Once the confirmation was sent, retrying in a browser could book twice
+  if (result.success || result.rejected || mayHaveBooked(result)) {
+    return result;
+  }
+
+  console.warn(`[bookCourt] HTTP booking failed at ${result.stage}: ${result.message}. Falling back to browser`);
+
+  const booked = await bookCourtAutomatically(params, credentials);
+
+  if (booked) {
+    return {
+      success: true,
+      method: "browser",
+      params,
+      message: `Court ${params.courtNumber} booked successfully`,
+    };
+  }
+
+  return { ...result, method: "browser" };
+}
+
+/**
+ * Book a court, adding it to the calendar afterwards when the preference asks for it
+ */
+export async function bookCourt(params: BookingParams, credentials: AuthCredentials): Promise<BookingResult> {
+  const result = await bookCourtWithFallback(params, credentials);
+
+  if (result.success) {
+    await addBookingToCalendarIfEnabled(params);
+  }
+
+  return result;
+}
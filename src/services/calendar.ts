@@ -0,0 +1,87 @@
+import { environment, getPreferenceValues, open } from "@raycast/api";
+import { mkdir, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { Rental } from "../utils/parser";
+import { buildRentalsCalendar } from "../utils/ics";
+import { getCenterById, getCenterName } from "../utils/centers";
+import { formatDate, formatDisplayDateTime, getEndTime } from "../utils/date";
+import { Account, DEFAULT_ACCOUNT_ID } from "./accounts";
+import type { BookingParams } from "./booking";
+
+interface Preferences {
+  addBookingsToCalendar?: boolean;
+}
+
+/**
+ * Write an account's rentals to an .ics file in Downloads and return its path
+ * The file name is fixed per account, so every export replaces the previous one
+ */
+export async function exportRentalsCalendar(rentals: Rental[], account: Account): Promise<string> {
+  const isDefault = account.id === DEFAULT_ACCOUNT_ID;
+  const fileName = isDefault ? "itec-rentals.ics" : `itec-rentals-${account.userId}.ics`;
+  const directory = join(homedir(), "Downloads");
+  const path = join(directory, fileName);
+
+  const name = isDefault ? "Tennis Court Rentals" : `Tennis Court Rentals (${account.name})`;
+  await mkdir(directory, { recursive: true });
+  await writeFile(path, buildRentalsCalendar(rentals, { name }), "utf8");
+
+  return path;
+}
+
+/**
+ * A booking as the rentals page will list it, so both exports produce the same calendar event
+ */
+function bookingToRental(params: BookingParams): Rental {
+  const center = getCenterById(params.unitId);
+  return {
+    date: formatDate(params.date),
+    dateObj: params.date,
+    time: `${params.startHour}-${getEndTime(params.startHour, params.duration)}`,
+    court: `${params.courtNumber} (${center?.name ?? params.unitId})`,
+    courtNumber: params.courtNumber,
+    centerName: center?.name,
+    unitId: params.unitId,
+  };
+}
+
+/**
+ * One-line description of a booking for pasting into a chat, e.g. "Tennis: court 4 at Ramat Hasharon, Sun 07/12/2025 20:00-21:00"
+ */
+export function getBookingSummary(params: BookingParams): string {
+  const time = `${params.startHour}-${getEndTime(params.startHour, params.duration)}`;
+  return `Tennis: court ${params.courtNumber} at ${getCenterName(params.unitId)}, ${formatDisplayDateTime(params.date, time)}`;
+}
+
+/**
+ * Write a calendar event for a booking and open it in the calendar app
+ */
+export async function addBookingToCalendar(params: BookingParams): Promise<void> {
+  const rental = bookingToRental(params);
+  const directory = join(environment.supportPath, "bookings");
+  const path = join(
+    directory,
+    `booking-${params.unitId}-${params.courtNumber}-${rental.date.replace(/\//g, "-")}-${params.startHour.replace(":", "")}.ics`
+  );
+
+  await mkdir(directory, { recursive: true });
+  await writeFile(path, buildRentalsCalendar([rental], { name: "Tennis Court Booking" }), "utf8");
+  await open(path);
+}
+
+/**
+ * Add a new booking to the calendar when the preference asks for it
+ * Failures are logged only, the booking itself already succeeded
+ */
+export async function addBookingToCalendarIfEnabled(params: BookingParams): Promise<void> {
+  if (!getPreferenceValues<Preferences>().addBookingsToCalendar) {
+    return;
+  }
+
+  try {
+    await addBookingToCalendar(params);
+  } catch (error) {
+    console.error("Error adding booking to calendar:", error);
+  }
+}
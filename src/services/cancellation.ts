@@ -0,0 +1,173 @@
+import { AuthCredentials } from "./auth";
+import { cancelRent, fetchMyRents } from "./api";
+import { toApiError } from "./errors";
+import { CANCELLATION_NOTICE_HOURS, CANCELLATION_WARNING_HOURS } from "../constants";
+import { parseMyRents, Rental } from "../utils/parser";
+import { combineDateAndTime, formatDate, formatTime, getWeekday } from "../utils/date";
+
+const HOUR_MS = 60 * 60 * 1000;
+const BULK_CANCEL_DELAY_MS = 1000; // Between cancel requests, to go easy on the site
+
+/**
+ * What a cancellation did, checked against the rentals the site lists afterwards
+ */
+export type CancellationResult =
+  | { status: "cancelled"; message: string } // The rental is no longer listed
+  | { status: "refused"; message: string } // The site said no; the rental is kept
+  | { status: "still-booked"; message: string } // The site did not refuse, but still lists the rental
+  | { status: "unverified"; message: string }; // The rental list could not be checked afterwards
+
+/**
+ * Estimated last moment the site offers to cancel a rental, assuming CANCELLATION_NOTICE_HOURS of notice
+ */
+export function getCancellationDeadline(rental: Rental): Date {
+  const start = combineDateAndTime(rental.dateObj, rental.time.split("-")[0]);
+  return new Date(start.getTime() - CANCELLATION_NOTICE_HOURS * HOUR_MS);
+}
+
+/**
+ * Short deadline for display, e.g. "Tue 18:00", with the date when it is more than six days away
+ * Shown with a "~" wherever it comes from getCancellationDeadline, since that is an estimate
+ */
+export function formatCancellationDeadline(deadline: Date, now: Date = new Date()): string {
+  const day = getWeekday(deadline);
+  const time = formatTime(deadline);
+  return deadline.getTime() - now.getTime() > 6 * 24 * HOUR_MS
+    ? `${day} ${formatDate(deadline).slice(0, 5)} ${time}`
+    : `${day} ${time}`;
+}
+
+/**
+ * Check if a cancellable rental's cancellation window is about to close (or should already have)
+ */
+export function isCancellationClosingSoon(rental: Rental, now: Date = new Date()): boolean {
+  return (
+    rental.allocationId !== undefined &&
+    getCancellationDeadline(rental).getTime() - now.getTime() <= CANCELLATION_WARNING_HOURS * HOUR_MS
+  );
+}
+
+/**
+ * Why a rental cannot be cancelled, for rentals the site shows no cancel link for
+ */
+export function getCancellationBlocker(rental: Rental, now: Date = new Date()): string {
+  const deadline = getCancellationDeadline(rental);
+  return deadline <= now
+    ? `The cancellation window has likely closed (usually ${CANCELLATION_NOTICE_HOURS} hours before the start, ~${formatCancellationDeadline(deadline, now)})`
+    : "The site does not offer to cancel this rental";
+}
+
+function isSameRental(a: Rental, b: Rental): boolean {
+  return (
+    (a.allocationId !== undefined && a.allocationId === b.allocationId) ||
+    (a.date === b.date && a.time === b.time && a.court === b.court)
+  );
+}
+
+/**
+ * Fetch the rentals again after cancelling; null (with the reason) when they could not be loaded
+ */
+async function fetchRemainingRentals(
+  credentials: AuthCredentials
+): Promise<{ rentals: Rental[] | null; error: string }> {
+  try {
+    return { rentals: parseMyRents(await fetchMyRents(credentials)), error: "" };
+  } catch (error) {
+    return { rentals: null, error: `Could not check your rentals afterwards: ${toApiError(error).message}` };
+  }
+}
+
+/**
+ * Result of a cancel request the site did not refuse, given the rentals listed afterwards
+ */
+function verifyCancellation(
+  rental: Rental,
+  siteMessage: string,
+  remaining: Rental[] | null,
+  error: string
+): CancellationResult {
+  if (!remaining) {
+    return { status: "unverified", message: error };
+  }
+  if (remaining.some((listed) => isSameRental(listed, rental))) {
+    return { status: "still-booked", message: siteMessage || "The site still lists the rental" };
+  }
+  return { status: "cancelled", message: siteMessage || "The rental is no longer listed" };
+}
+
+/**
+ * Cancel a rental, then fetch the rentals again to check it is gone
+ * Throws an ApiError when the cancellation request itself failed
+ */
+export async function cancelRental(
+  rental: Rental & { allocationId: string },
+  credentials: AuthCredentials
+): Promise<CancellationResult> {
+  const outcome = await cancelRent(rental.allocationId, credentials);
+
+  if (outcome.status === "error") {
+    return { status: "refused", message: outcome.message };
+  }
+
+  const { rentals, error } = await fetchRemainingRentals(credentials);
+  return verifyCancellation(rental, outcome.message, rentals, error);
+}
+
+/**
+ * Outcome for one rental of a bulk cancellation
+ */
+export interface BulkCancellationItem {
+  rental: Rental;
+  status: CancellationResult["status"] | "skipped" | "failed"; // Skipped: no cancel link; failed: the request errored
+  message: string;
+}
+
+/**
+ * Cancel several rentals one at a time, pausing between requests, and check them all against one
+ * fresh rentals list at the end. Rentals the site offers no cancel link for are skipped
+ */
+export async function cancelRentals(
+  rentals: Rental[],
+  credentials: AuthCredentials,
+  options: { delayMs?: number; onProgress?: (done: number, total: number) => void } = {}
+): Promise<BulkCancellationItem[]> {
+  const delayMs = options.delayMs ?? BULK_CANCEL_DELAY_MS;
+  const requested: Array<{ rental: Rental; message: string }> = [];
+  const items = new Map<Rental, BulkCancellationItem>();
+  let requestCount = 0;
+
+  for (const [index, rental] of rentals.entries()) {
+    if (!rental.allocationId) {
+      items.set(rental, { rental, status: "skipped", message: getCancellationBlocker(rental) });
+      options.onProgress?.(index + 1, rentals.length);
+      continue;
+    }
+
+    if (requestCount++ > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    try {
+      const outcome = await cancelRent(rental.allocationId, credentials);
+      if (outcome.status === "error") {
+        items.set(rental, { rental, status: "refused", message: outcome.message });
+      } else {
+        requested.push({ rental, message: outcome.message });
+      }
+    } catch (error) {
+      items.set(rental, { rental, status: "failed", message: toApiError(error).message });
+    }
+
+    options.onProgress?.(index + 1, rentals.length);
+  }
+
+  if (requested.length > 0) {
+    const { rentals: remaining, error } = await fetchRemainingRentals(credentials);
+    for (const { rental, message } of requested) {
+      items.set(rental, { rental, ...verifyCancellation(rental, message, remaining, error) });
+    }
+  }
+
+  // Report in the order the rentals were given
+  return rentals.map((rental) => items.get(rental) as BulkCancellationItem);
+}
@@ -0,0 +1,126 @@
+/**
+ * Error model for the ITEC API layer
+ */
+
+import type { LoginFailureReason } from "./auth";
+import { ParseDriftError } from "../utils/parser";
+
+export type ApiErrorDetails =
+  | { kind: "auth"; reason: string; cause?: LoginFailureReason } // Could not log in
+  | { kind: "session-expired" } // The site sent us back to the login page
+  | { kind: "http"; status: number } // Unexpected HTTP status
+  | { kind: "network"; cause: string } // The request never got a response
+  | { kind: "rate-limited"; retryAfterSeconds?: number } // HTTP 429
+  | { kind: "parse"; endpoint: string } // The response did not have the expected structure
+  | { kind: "unexpected"; cause: string }; // Anything else, e.g. a bug in our own code
+
+export type ApiErrorKind = ApiErrorDetails["kind"];
+
+/**
+ * What the user can do about an error
+ */
+export type RecoveryAction = "relogin" | "retry" | "open-website" | "test-login" | "open-preferences";
+
+export class ApiError extends Error {
+  readonly details: ApiErrorDetails;
+
+  constructor(details: ApiErrorDetails, message?: string) {
+    super(message ?? getErrorSummary(details));
+    this.name = "ApiError";
+    this.details = details;
+  }
+
+  get kind(): ApiErrorKind {
+    return this.details.kind;
+  }
+}
+
+/**
+ * Short, user-facing description of an error
+ */
+export function getErrorSummary(details: ApiErrorDetails): string {
+  switch (details.kind) {
+    case "auth":
+      return `Login failed: ${details.reason}`;
+    case "session-expired":
+      return "Session expired";
+    case "http":
+      return `Server error (HTTP ${details.status})`;
+    case "network":
+      return `Network error: ${details.cause}`;
+    case "rate-limited":
+      return details.retryAfterSeconds
+        ? `Rate limited, retry in ${details.retryAfterSeconds}s`
+        : "Rate limited by the server";
+    case "parse":
+      return `Unexpected response from ${details.endpoint}`;
+    case "unexpected":
+      return `Unexpected error: ${details.cause}`;
+  }
+}
+
+/**
+ * Recovery actions that make sense for an error, most useful first
+ */
+export function getRecoveryActions(error: ApiError): RecoveryAction[] {
+  switch (error.details.kind) {
+    case "auth":
+      if (error.details.cause === "invalid-credentials") {
+        return ["open-preferences", "test-login"];
+      }
+      if (error.details.cause === "site-changed" || error.details.cause === "no-session") {
+        return ["test-login", "open-website", "retry"];
+      }
+      return ["relogin", "retry", "test-login"];
+    case "session-expired":
+      return ["relogin", "retry"];
+    case "network":
+    case "rate-limited":
+      return ["retry"];
+    case "http":
+      return ["retry", "open-website"];
+    case "parse":
+      return ["open-website", "retry"];
+    case "unexpected":
+      // Retrying would hit the same fault; booking on the website still works
+      return ["open-website"];
+  }
+}
+
+// Error codes Node and node-fetch use when a request never got a response
+const NETWORK_ERROR_CODE = /^(ECONN|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|UND_ERR)/;
+
+/**
+ * Check if an error comes from a request that failed to reach the site, as opposed to a bug
+ */
+function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === "FetchError" || error.name === "AbortError") {
+    return true;
+  }
+
+  // Node's own fetch wraps the system error as the cause
+  const { code } = error as { code?: unknown };
+  return (
+    (typeof code === "string" && NETWORK_ERROR_CODE.test(code)) ||
+    (error.cause !== undefined && isNetworkError(error.cause))
+  );
+}
+
+/**
+ * Normalize anything thrown by fetch, the parsers or our own code into an ApiError
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof ParseDriftError) {
+    return new ApiError({ kind: "parse", endpoint: error.endpoint }, error.message);
+  }
+
+  const cause = error instanceof Error ? error.message : String(error);
+  return new ApiError(isNetworkError(error) ? { kind: "network", cause } : { kind: "unexpected", cause });
+}
@@ -0,0 +1,157 @@
+import { AuthCredentials } from "./auth";
+import { fetchMyRents } from "./api";
+import { toApiError } from "./errors";
+import { BookingFailure, BookingParams, BookingSuccess, bookCourtWithFallback, mayHaveBooked } from "./booking";
+import { addBookingToCalendarIfEnabled } from "./calendar";
+import { BulkCancellationItem, cancelRentals } from "./cancellation";
+import { parseMyRents, Rental } from "../utils/parser";
+import { formatDate, getEndTime } from "../utils/date";
+
+/**
+ * Courts to book together: several courts at the same time, repeated for back-to-back blocks
+ */
+export interface GroupBookingRequest {
+  unitId: string; // Tennis center ID
+  date: Date;
+  startHour: string; // Start of the first block, HH:mm
+  duration: number; // Length of each block in hours
+  blocks: number; // Back-to-back blocks, 1 for a single time
+  courts: Array<{ courtId: number; courtNumber: number }>;
+}
+
+export interface GroupBookingResult {
+  status: "booked" | "failed" | "partial" | "rolled-back" | "rollback-incomplete";
+  booked: BookingSuccess[]; // Bookings that went through, including any cancelled by the rollback
+  failed: BookingFailure[];
+  rollback: BulkCancellationItem[]; // Cancellations made to undo the group, including orders sent without a confirmation
+}
+
+/**
+ * Expand a group into single bookings, in time order and then in the order the courts were given
+ */
+export function buildGroupBookings(request: GroupBookingRequest): BookingParams[] {
+  const bookings: BookingParams[] = [];
+  for (let block = 0; block < request.blocks; block++) {
+    const startHour = getEndTime(request.startHour, request.duration * block);
+    for (const court of request.courts) {
+      bookings.push({
+        unitId: request.unitId,
+        courtId: court.courtId,
+        courtNumber: court.courtNumber,
+        date: request.date,
+        startHour,
+        duration: request.duration,
+      });
+    }
+  }
+  return bookings;
+}
+
+function isBookedRental(rental: Rental, params: BookingParams): boolean {
+  return (
+    rental.date === formatDate(params.date) &&
+    rental.time.startsWith(`${params.startHour}-`) &&
+    rental.courtNumber === params.courtNumber &&
+    (!rental.unitId || rental.unitId === params.unitId)
+  );
+}
+
+/**
+ * Cancel the rentals made for a group, finding them in a fresh rentals list. Unconfirmed bookings
+ * are orders sent without a confirmation; they are cancelled too when they turn out to be held
+ */
+async function rollBack(
+  bookings: BookingParams[],
+  unconfirmed: BookingParams[],
+  credentials: AuthCredentials
+): Promise<BulkCancellationItem[]> {
+  const unmatched = (params: BookingParams, message: string): BulkCancellationItem => ({
+    rental: {
+      date: formatDate(params.date),
+      dateObj: params.date,
+      time: `${params.startHour}-${getEndTime(params.startHour, params.duration)}`,
+      court: String(params.courtNumber),
+      courtNumber: params.courtNumber,
+      unitId: params.unitId,
+    },
+    status: "failed",
+    message,
+  });
+
+  let rentals: Rental[];
+  try {
+    rentals = parseMyRents(await fetchMyRents(credentials));
+  } catch (error) {
+    const message = `Could not load your rentals to cancel them: ${toApiError(error).message}`;
+    return [...bookings, ...unconfirmed].map((params) => unmatched(params, message));
+  }
+
+  const items: BulkCancellationItem[] = [];
+  const found: Rental[] = [];
+  for (const params of [...bookings, ...unconfirmed]) {
+    const rental = rentals.find((r) => isBookedRental(r, params));
+    if (rental) {
+      found.push(rental);
+    } else if (bookings.includes(params)) {
+      items.push(unmatched(params, "Booked, but not found in your rentals"));
+    } else {
+      // Its rental may only show up later, so it cannot be reported as undone
+      items.push(unmatched(params, "Sent without a confirmation and not found in your rentals, check them"));
+    }
+  }
+
+  return [...(await cancelRentals(found, credentials)), ...items];
+}
+
+/**
+ * Book a group one court at a time. With allOrNothing, the first failure stops the group and
+ * everything already booked is cancelled, as is the failed order if it may have gone through;
+ * otherwise the remaining courts are still tried
+ * Calendar events are only added for bookings the group keeps, once it is done
+ */
+export async function bookGroup(
+  request: GroupBookingRequest,
+  credentials: AuthCredentials,
+  options: { allOrNothing: boolean; onProgress?: (done: number, total: number) => void }
+): Promise<GroupBookingResult> {
+  const bookings = buildGroupBookings(request);
+  const booked: BookingSuccess[] = [];
+  const failed: BookingFailure[] = [];
+  const unconfirmed: BookingParams[] = [];
+
+  for (const [index, params] of bookings.entries()) {
+    const result = await bookCourtWithFallback(params, credentials);
+    options.onProgress?.(index + 1, bookings.length);
+
+    if (result.success) {
+      booked.push(result);
+      continue;
+    }
+
+    failed.push(result);
+    if (mayHaveBooked(result)) {
+      unconfirmed.push(params);
+    }
+    if (options.allOrNothing) {
+      break;
+    }
+  }
+
+  if (failed.length > 0 && booked.length === 0 && (unconfirmed.length === 0 || !options.allOrNothing)) {
+    return { status: "failed", booked, failed, rollback: [] };
+  }
+  if (failed.length === 0 || !options.allOrNothing) {
+    for (const booking of booked) {
+      await addBookingToCalendarIfEnabled(booking.params);
+    }
+    return { status: failed.length === 0 ? "booked" : "partial", booked, failed, rollback: [] };
+  }
+
+  const rollback = await rollBack(
+    booked.map((booking) => booking.params),
+    unconfirmed,
+    credentials
+  );
+  const undone = rollback.every((item) => item.status === "cancelled");
+  return { status: undone ? "rolled-back" : "rollback-incomplete", booked, failed, rollback };
+}
@@ -0,0 +1,98 @@
+import { LocalStorage } from "@raycast/api";
+import { Account } from "./accounts";
+import { Rental } from "../utils/parser";
+import { combineDateAndTime, getTimeRangeHours, parseDate } from "../utils/date";
+
+const STORAGE_KEY_HISTORY = "itec_rental_history";
+
+/**
+ * A rental as last seen on the site, kept after the site stops listing it
+ */
+export interface HistoryEntry {
+  id: string; // Date, time range and court, which identify a rental on the site
+  date: string; // Format: dd/MM/yyyy
+  time: string; // Time range, e.g. "10:00-11:00"
+  court: string; // Court label, e.g. "7 (ירושלים)"
+  status: "upcoming" | "played" | "cancelled";
+  firstSeenAt: string; // ISO timestamp
+  lastSeenAt: string; // ISO timestamp of the last time the site listed it
+}
+
+function getStorageKey(account: Account): string {
+  return `${STORAGE_KEY_HISTORY}_${account.userId}`;
+}
+
+function getEntryId(rental: { date: string; time: string; court: string }): string {
+  return `${rental.date}_${rental.time}_${rental.court}`;
+}
+
+/**
+ * Get the start of a history entry
+ */
+export function getEntryStart(entry: HistoryEntry): Date {
+  return combineDateAndTime(parseDate(entry.date), entry.time.split("-")[0]);
+}
+
+/**
+ * Get the length of a history entry in hours
+ */
+export function getEntryHours(entry: HistoryEntry): number {
+  return getTimeRangeHours(entry.time);
+}
+
+/**
+ * Get the stored history of an account, most recent first
+ */
+export async function getRentalHistory(account: Account): Promise<HistoryEntry[]> {
+  try {
+    const stored = await LocalStorage.getItem<string>(getStorageKey(account));
+    const entries: HistoryEntry[] = stored ? JSON.parse(stored) : [];
+    return entries.sort((a, b) => getEntryStart(b).getTime() - getEntryStart(a).getTime());
+  } catch (error) {
+    console.error("Error reading rental history:", error);
+    return [];
+  }
+}
+
+async function storeRentalHistory(account: Account, entries: HistoryEntry[]): Promise<void> {
+  await LocalStorage.setItem(getStorageKey(account), JSON.stringify(entries));
+}
+
+/**
+ * Merge the rentals the site currently lists into the stored history.
+ * Listed rentals are played once they have started. A stored upcoming rental the site no longer
+ * lists was played if it has started, and was cancelled (here or on the site) otherwise
+ */
+export async function syncRentalHistory(
+  account: Account,
+  rentals: Rental[],
+  now: Date = new Date()
+): Promise<HistoryEntry[]> {
+  const timestamp = now.toISOString();
+  const history = new Map((await getRentalHistory(account)).map((entry) => [entry.id, entry]));
+  const listed = new Set<string>();
+
+  for (const rental of rentals) {
+    const id = getEntryId(rental);
+    const start = combineDateAndTime(rental.dateObj, rental.time.split("-")[0]);
+    history.set(id, {
+      id,
+      date: rental.date,
+      time: rental.time,
+      court: rental.court,
+      status: start <= now ? "played" : "upcoming",
+      firstSeenAt: history.get(id)?.firstSeenAt ?? timestamp,
+      lastSeenAt: timestamp,
+    });
+    listed.add(id);
+  }
+
+  for (const entry of history.values()) {
+    if (entry.status === "upcoming" && !listed.has(entry.id)) {
+      entry.status = getEntryStart(entry) <= now ? "played" : "cancelled";
+    }
+  }
+
+  await storeRentalHistory(account, [...history.values()]);
+  return getRentalHistory(account);
+}
@@ -2,25 +2,13 @@ import puppeteer, { Browser, Page } from "puppeteer-core";
 import { showToast, Toast, getPreferenceValues } from "@raycast/api";
 import { formatDate } from "../utils/date";
 import { AuthCredentials, getAuthTokens } from "./auth";
-
-const BASE_URL = "https://center.tennis.org.il";
+import type { BookingParams } from "./booking";
+import { getBaseUrl, getSiteUrl } from "./site";
 
 interface Preferences {
-  tennisCenter: string;
-  email: string;
-  userId: string;
   chromePath?: string;
 }
 
-export interface BookingParams {
-  unitId: string; // Tennis center ID
-  courtId: number;
-  courtNumber: number;
-  date: Date;
-  startHour: string; // Format: HH:mm
-  duration: number; // 1, 1.5, 2, or 3
-}
-
 /**
  * Get the Chrome/Chromium executable path
  */
@@ -68,13 +56,14 @@ async function launchBrowser(credentials: AuthCredentials): Promise<{ browser: B
     const page = await browser.newPage();
 
     // Set the session cookie so we're already logged in
+    const site = new URL(getBaseUrl());
     await browser.setCookie({
       name: "_session_id",
       value: tokens.sessionId,
-      domain: "center.tennis.org.il",
+      domain: site.hostname,
       path: "/",
       httpOnly: true,
-      secure: true,
+      secure: site.protocol === "https:",
     });
 
     return { browser, page };
@@ -89,7 +78,7 @@ async function launchBrowser(credentials: AuthCredentials): Promise<{ browser: B
  */
 async function fillStep1(page: Page, params: BookingParams): Promise<boolean> {
   try {
-    await page.goto(`${BASE_URL}/self_services/court_invitation`, {
+    await page.goto(getSiteUrl("/self_services/court_invitation"), {
       waitUntil: "networkidle2",
     });
 
@@ -532,14 +521,9 @@ async function verifyStep4(page: Page): Promise<boolean> {
 
 /**
  * Main function to automate court booking
+ * Used as a fallback when the HTTP booking pipeline cannot complete
  */
-export async function bookCourtAutomatically(params: BookingParams): Promise<boolean> {
-  const preferences = getPreferenceValues<Preferences>();
-  const credentials: AuthCredentials = {
-    email: preferences.email,
-    userId: preferences.userId,
-  };
-
+export async function bookCourtAutomatically(params: BookingParams, credentials: AuthCredentials): Promise<boolean> {
   let browser: Browser | null = null;
 
   try {
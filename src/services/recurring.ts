@@ -0,0 +1,132 @@
+import { LocalStorage } from "@raycast/api";
+import { AuthCredentials } from "./auth";
+import { searchCourts } from "./api";
+import { pickPreferredSlot } from "./booking";
+import { toApiError } from "./errors";
+import { BOOKING_WINDOW_DAYS } from "../constants";
+import { getCenterById } from "../utils/centers";
+import { combineDateAndTime, formatDate, getEndTime, getNextDays, getToday } from "../utils/date";
+import { CourtSlot, Rental } from "../utils/parser";
+
+const STORAGE_KEY_RULES = "itec_recurring_rules";
+
+/**
+ * A weekly booking, e.g. every Tuesday at 20:00 for 2 hours
+ */
+export interface RecurringRule {
+  id: string;
+  weekday: number; // 0 = Sunday, 6 = Saturday
+  time: string; // Format: HH:mm
+  duration: number; // 1, 1.5, 2, or 3
+  unitId: string; // Tennis center ID
+  preferredCourts: number[]; // Court numbers in order of preference
+  anyCourt: boolean; // Fall back to any free court when no preferred court is free
+}
+
+/**
+ * State of one occurrence of a rule within the bookable horizon
+ */
+export type Occurrence =
+  | { date: Date; status: "booked"; rental: Rental }
+  | { date: Date; status: "open"; slot: CourtSlot }
+  | { date: Date; status: "unavailable"; reason: string };
+
+/**
+ * Get all stored rules
+ */
+export async function getRules(): Promise<RecurringRule[]> {
+  try {
+    const stored = await LocalStorage.getItem<string>(STORAGE_KEY_RULES);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error reading recurring rules:", error);
+    return [];
+  }
+}
+
+async function storeRules(rules: RecurringRule[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY_RULES, JSON.stringify(rules));
+}
+
+/**
+ * Add a rule
+ */
+export async function addRule(rule: Omit<RecurringRule, "id">): Promise<RecurringRule> {
+  const rules = await getRules();
+  const newRule: RecurringRule = { ...rule, id: `${rule.unitId}_${rule.weekday}_${rule.time}_${Date.now()}` };
+  await storeRules([...rules, newRule]);
+  return newRule;
+}
+
+/**
+ * Remove a rule
+ */
+export async function removeRule(id: string): Promise<void> {
+  const rules = await getRules();
+  await storeRules(rules.filter((r) => r.id !== id));
+}
+
+/**
+ * Get the dates of a rule that fall inside the bookable horizon and have not started yet
+ */
+export function getOccurrenceDates(rule: RecurringRule, now: Date = new Date()): Date[] {
+  return getNextDays(getToday(), BOOKING_WINDOW_DAYS).filter(
+    (date) => date.getDay() === rule.weekday && combineDateAndTime(date, rule.time) > now
+  );
+}
+
+/**
+ * Find an existing rental that satisfies an occurrence (same date, start and end time, and center)
+ */
+export function findMatchingRental(rule: RecurringRule, date: Date, rentals: Rental[]): Rental | undefined {
+  const centerName = getCenterById(rule.unitId)?.name;
+  const time = `${rule.time}-${getEndTime(rule.time, rule.duration)}`;
+
+  return rentals.find(
+    (rental) =>
+      rental.date === formatDate(date) &&
+      rental.time === time &&
+      (rental.unitId ? rental.unitId === rule.unitId : !centerName || rental.court.includes(centerName))
+  );
+}
+
+/**
+ * Evaluate every occurrence of a rule against the user's rentals and current availability
+ */
+export async function evaluateRule(
+  rule: RecurringRule,
+  rentals: Rental[],
+  credentials: AuthCredentials
+): Promise<Occurrence[]> {
+  const occurrences: Occurrence[] = [];
+
+  for (const date of getOccurrenceDates(rule)) {
+    const rental = findMatchingRental(rule, date, rentals);
+    if (rental) {
+      occurrences.push({ date, status: "booked", rental });
+      continue;
+    }
+
+    let availability;
+    try {
+      availability = await searchCourts(
+        { unitId: rule.unitId, date, startHour: rule.time, duration: rule.duration },
+        credentials
+      );
+    } catch (error) {
+      occurrences.push({ date, status: "unavailable", reason: toApiError(error).message });
+      continue;
+    }
+
+    if (availability.status === "no-courts") {
+      occurrences.push({ date, status: "unavailable", reason: "Fully booked" });
+    } else {
+      const slot = pickPreferredSlot(availability.slots, rule.preferredCourts, rule.anyCourt);
+      occurrences.push(
+        slot ? { date, status: "open", slot } : { date, status: "unavailable", reason: "Preferred courts taken" }
+      );
+    }
+  }
+
+  return occurrences;
+}
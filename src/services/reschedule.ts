@@ -0,0 +1,96 @@
+import { AuthCredentials } from "./auth";
+import { toApiError } from "./errors";
+import { cancelRental } from "./cancellation";
+import { BookingFailure, BookingParams, BookingSuccess, bookCourt, mayHaveBooked } from "./booking";
+import { ScanOptions, SlotScanResult, scanCenterDay } from "./scan";
+import { Rental } from "../utils/parser";
+import { getTimeRangeHours, getToday } from "../utils/date";
+
+/**
+ * A rental that can be moved: the site still offers to cancel it and its center is known
+ */
+export type ReschedulableRental = Rental & { allocationId: string; unitId: string };
+
+/**
+ * What a reschedule did, in terms of the rentals the user holds afterwards
+ */
+export type RescheduleResult =
+  | { status: "rescheduled"; booking: BookingSuccess } // New slot booked, old rental cancelled
+  | { status: "not-booked"; booking: BookingFailure } // Nothing changed, the old rental is kept
+  | { status: "unverified"; booking: BookingFailure } // New slot ordered but not confirmed, the old rental is kept
+  | { status: "cancel-failed"; booking: BookingSuccess; message: string }; // New slot booked, the old rental may still be held
+
+export function isReschedulable(rental: Rental): rental is ReschedulableRental {
+  return Boolean(rental.allocationId && rental.unitId);
+}
+
+/**
+ * Days to look for alternatives on: the rental's day and the days around it, from today on
+ */
+export function getRescheduleDates(rental: Rental, daysAround: number): Date[] {
+  const today = getToday();
+  const dates: Date[] = [];
+  for (let offset = -daysAround; offset <= daysAround; offset++) {
+    const date = new Date(rental.dateObj);
+    date.setDate(date.getDate() + offset);
+    if (date >= today) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Find free slots of the same length at the rental's center on the same or nearby days
+ * Days whose time slots cannot be loaded are reported through onCenterError and skipped
+ */
+export async function findRescheduleOptions(
+  rental: ReschedulableRental,
+  credentials: AuthCredentials,
+  options: ScanOptions & { daysAround?: number } = {}
+): Promise<SlotScanResult[]> {
+  const duration = getTimeRangeHours(rental.time);
+  const results: SlotScanResult[] = [];
+
+  for (const date of getRescheduleDates(rental, options.daysAround ?? 1)) {
+    if (options.isCancelled?.()) {
+      break;
+    }
+
+    try {
+      results.push(...(await scanCenterDay(rental.unitId, date, duration, credentials, options)));
+    } catch (error) {
+      options.onCenterError?.(rental.unitId, toApiError(error));
+    }
+  }
+
+  return results.filter((result) => result.availability?.status === "available");
+}
+
+/**
+ * Move a rental to a new slot. The new slot is booked first and the old rental is only cancelled
+ * once that succeeded, so a failed booking never costs the rental the user already has
+ */
+export async function rescheduleRental(
+  rental: ReschedulableRental,
+  params: BookingParams,
+  credentials: AuthCredentials
+): Promise<RescheduleResult> {
+  const booking = await bookCourt(params, credentials);
+
+  if (!booking.success) {
+    return { status: mayHaveBooked(booking) ? "unverified" : "not-booked", booking };
+  }
+
+  try {
+    const cancellation = await cancelRental(rental, credentials);
+    if (cancellation.status !== "cancelled") {
+      return { status: "cancel-failed", booking, message: cancellation.message };
+    }
+  } catch (error) {
+    console.error("Error cancelling the rescheduled rental:", error);
+    return { status: "cancel-failed", booking, message: toApiError(error).message };
+  }
+
+  return { status: "rescheduled", booking };
+}
@@ -0,0 +1,103 @@
+import { AuthCredentials } from "./auth";
+import { searchCourts, fetchTimeSlots } from "./api";
+import { ApiError, toApiError } from "./errors";
+import { CourtAvailability } from "../utils/parser";
+import { generateTimeSlotsForDate } from "../utils/date";
+
+export interface SlotScanResult {
+  unitId: string;
+  date: Date;
+  time: string;
+  availability: CourtAvailability | null;
+  error?: ApiError; // Set when availability could not be checked
+}
+
+export interface ScanOptions {
+  onSlots?: (unitId: string, times: string[]) => void; // Called once the time slots of a center are known
+  onResult?: (result: SlotScanResult) => void; // Called as each slot is checked
+  onCenterError?: (unitId: string, error: ApiError) => void; // Called when a center's time slots cannot be loaded
+  isCancelled?: () => boolean;
+}
+
+const BATCH_SIZE = 5;
+
+/**
+ * Check availability of every time slot of one center on a date
+ * Throws an ApiError if the center's time slots cannot be loaded; failed slots are reported in their results
+ */
+export async function scanCenterDay(
+  unitId: string,
+  date: Date,
+  duration: number,
+  credentials: AuthCredentials,
+  options: ScanOptions = {}
+): Promise<SlotScanResult[]> {
+  const availableTimeSlots = await fetchTimeSlots(unitId, date, credentials);
+  const slots = generateTimeSlotsForDate(date, availableTimeSlots);
+  options.onSlots?.(
+    unitId,
+    slots.map((slot) => slot.time)
+  );
+
+  const results: SlotScanResult[] = [];
+
+  // Fetch availability in batches to avoid overwhelming the server
+  for (let batchStart = 0; batchStart < slots.length; batchStart += BATCH_SIZE) {
+    if (options.isCancelled?.()) {
+      break;
+    }
+
+    const batchResults = await Promise.all(
+      slots.slice(batchStart, batchStart + BATCH_SIZE).map(async (slot) => {
+        const result: SlotScanResult = { unitId, date: slot.date, time: slot.time, availability: null };
+        try {
+          result.availability = await searchCourts(
+            { unitId, date: slot.date, startHour: slot.time, duration },
+            credentials
+          );
+        } catch (error) {
+          result.error = toApiError(error);
+        }
+        options.onResult?.(result);
+        return result;
+      })
+    );
+
+    results.push(...batchResults);
+
+    // Small delay between batches
+    if (batchStart + BATCH_SIZE < slots.length) {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Check availability across several centers on a date, one center at a time
+ * A center whose time slots cannot be loaded is reported through onCenterError and skipped
+ */
+export async function scanCentersDay(
+  unitIds: string[],
+  date: Date,
+  duration: number,
+  credentials: AuthCredentials,
+  options: ScanOptions = {}
+): Promise<SlotScanResult[]> {
+  const results: SlotScanResult[] = [];
+
+  for (const unitId of unitIds) {
+    if (options.isCancelled?.()) {
+      break;
+    }
+
+    try {
+      results.push(...(await scanCenterDay(unitId, date, duration, credentials, options)));
+    } catch (error) {
+      options.onCenterError?.(unitId, toApiError(error));
+    }
+  }
+
+  return results;
+}
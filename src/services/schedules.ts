@@ -0,0 +1,121 @@
+import { LocalStorage } from "@raycast/api";
+import { BOOKING_WINDOW_DAYS } from "../constants";
+import { combineDateAndTime, parseDate } from "../utils/date";
+
+const STORAGE_KEY_SCHEDULES = "itec_scheduled_bookings";
+
+/**
+ * A booking to fire as soon as reservations for the slot open
+ */
+export interface ScheduledBooking {
+  id: string;
+  accountId?: string; // Account to book with; the preferences account when missing
+  unitId: string; // Tennis center ID
+  date: string; // Format: dd/MM/yyyy
+  time: string; // Format: HH:mm
+  duration: number; // 1, 1.5, 2, or 3
+  preferredCourts: number[]; // Court numbers in order of preference
+  anyCourt: boolean; // Fall back to any free court when no preferred court is free
+  opensAt: string; // ISO timestamp when reservations for the slot open
+  status: "armed" | "running" | "booked" | "failed" | "unverified"; // Unverified: an order was sent but not confirmed
+  startedAt?: string; // ISO timestamp of the current or last run
+  result?: ScheduleResult;
+}
+
+export interface ScheduleResult {
+  message: string;
+  courtNumber?: number;
+  attempts: number;
+  finishedAt: string; // ISO timestamp
+}
+
+/**
+ * Default moment reservations open for a date: midnight of the first day the
+ * date falls inside the rolling booking window
+ */
+export function getDefaultOpensAt(date: Date): Date {
+  const opensAt = new Date(date);
+  opensAt.setDate(opensAt.getDate() - (BOOKING_WINDOW_DAYS - 1));
+  opensAt.setHours(0, 0, 0, 0);
+  return opensAt;
+}
+
+/**
+ * Get the start of a scheduled slot
+ */
+export function getScheduleStart(schedule: ScheduledBooking): Date {
+  return combineDateAndTime(parseDate(schedule.date), schedule.time);
+}
+
+/**
+ * Get all stored scheduled bookings
+ */
+export async function getSchedules(): Promise<ScheduledBooking[]> {
+  try {
+    const stored = await LocalStorage.getItem<string>(STORAGE_KEY_SCHEDULES);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error reading scheduled bookings:", error);
+    return [];
+  }
+}
+
+async function storeSchedules(schedules: ScheduledBooking[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY_SCHEDULES, JSON.stringify(schedules));
+}
+
+/**
+ * Arm a new scheduled booking
+ */
+export async function addSchedule(
+  schedule: Omit<ScheduledBooking, "id" | "status" | "startedAt" | "result">
+): Promise<ScheduledBooking> {
+  const schedules = await getSchedules();
+  const newSchedule: ScheduledBooking = {
+    ...schedule,
+    id: `${schedule.unitId}_${schedule.date}_${schedule.time}_${Date.now()}`,
+    status: "armed",
+  };
+
+  await storeSchedules([...schedules, newSchedule]);
+  return newSchedule;
+}
+
+/**
+ * Update a scheduled booking
+ */
+export async function updateSchedule(id: string, changes: Partial<ScheduledBooking>): Promise<void> {
+  const schedules = await getSchedules();
+  await storeSchedules(schedules.map((s) => (s.id === id ? { ...s, ...changes } : s)));
+}
+
+/**
+ * Remove a scheduled booking
+ */
+export async function removeSchedule(id: string): Promise<void> {
+  const schedules = await getSchedules();
+  await storeSchedules(schedules.filter((s) => s.id !== id));
+}
+
+/**
+ * Remove every scheduled booking of an account, e.g. when the account is removed
+ */
+export async function removeAccountSchedules(accountId: string): Promise<void> {
+  const schedules = await getSchedules();
+  await storeSchedules(schedules.filter((s) => s.accountId !== accountId));
+}
+
+/**
+ * Remove scheduled bookings for slots in the past and return the remaining ones
+ */
+export async function pruneExpiredSchedules(): Promise<ScheduledBooking[]> {
+  const schedules = await getSchedules();
+  const now = new Date();
+  const active = schedules.filter((s) => getScheduleStart(s) > now);
+
+  if (active.length !== schedules.length) {
+    await storeSchedules(active);
+  }
+
+  return active;
+}
@@ -0,0 +1,21 @@
+import { getPreferenceValues } from "@raycast/api";
+import { DEFAULT_BASE_URL } from "../constants";
+
+interface Preferences {
+  baseUrl?: string;
+}
+
+/**
+ * Base URL of the ITEC website, which the preferences can point at a local mock server
+ */
+export function getBaseUrl(): string {
+  const { baseUrl } = getPreferenceValues<Preferences>();
+  return (baseUrl?.trim() || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+/**
+ * Absolute URL of a path on the ITEC website, e.g. "/self_services/login"
+ */
+export function getSiteUrl(path: string): string {
+  return `${getBaseUrl()}${path}`;
+}
@@ -0,0 +1,140 @@
+import { LocalStorage } from "@raycast/api";
+import { combineDateAndTime, parseDate } from "../utils/date";
+
+const STORAGE_KEY_WATCHES = "itec_watches";
+
+/**
+ * A fully booked slot the user wants to be notified about
+ */
+export interface SlotWatch {
+  id: string;
+  accountId?: string; // Account to check and book with; the preferences account when missing
+  unitId: string; // Tennis center ID
+  date: string; // Format: dd/MM/yyyy
+  time: string; // Format: HH:mm
+  duration: number; // 1, 1.5, 2, or 3
+  createdAt: string; // ISO timestamp
+  autoBook?: AutoBookRule; // Book automatically instead of only notifying
+  outcome?: WatchOutcome; // Final result of auto-booking; failures that can be retried leave none
+}
+
+/**
+ * Opt-in rule for booking a watched slot as soon as it frees up
+ */
+export interface AutoBookRule {
+  preferredCourts: number[]; // Court numbers in order of preference
+  anyCourt: boolean; // Fall back to any free court when no preferred court is free
+  maxDuration: number; // Longest duration to try, down to the watched duration
+  deadline: string; // ISO timestamp after which no booking is attempted
+}
+
+export interface WatchOutcome {
+  // Unverified: the order was sent but not confirmed. Failed: recorded by earlier versions, such watches are re-armed
+  status: "booked" | "unverified" | "expired" | "failed";
+  message: string;
+  courtNumber?: number;
+  duration?: number;
+  recordedAt: string; // ISO timestamp
+}
+
+/**
+ * Get the start of a watched slot
+ */
+export function getWatchStart(watch: SlotWatch): Date {
+  return combineDateAndTime(parseDate(watch.date), watch.time);
+}
+
+/**
+ * Check if a watched slot has already started
+ */
+export function isWatchExpired(watch: SlotWatch, now: Date = new Date()): boolean {
+  return getWatchStart(watch) <= now;
+}
+
+/**
+ * Get all stored watches
+ */
+export async function getWatches(): Promise<SlotWatch[]> {
+  try {
+    const stored = await LocalStorage.getItem<string>(STORAGE_KEY_WATCHES);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error reading watches:", error);
+    return [];
+  }
+}
+
+async function storeWatches(watches: SlotWatch[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY_WATCHES, JSON.stringify(watches));
+}
+
+/**
+ * Watch a slot. If the same (account, center, date, time, duration) is already watched,
+ * its auto-book rule is replaced and any previous outcome is cleared
+ */
+export async function addWatch(watch: Omit<SlotWatch, "id" | "createdAt">): Promise<SlotWatch> {
+  const watches = await getWatches();
+  const existing = watches.find(
+    (w) =>
+      w.accountId === watch.accountId &&
+      w.unitId === watch.unitId &&
+      w.date === watch.date &&
+      w.time === watch.time &&
+      w.duration === watch.duration
+  );
+
+  if (existing) {
+    const updated: SlotWatch = { ...existing, autoBook: watch.autoBook ?? existing.autoBook, outcome: undefined };
+    await storeWatches(watches.map((w) => (w.id === existing.id ? updated : w)));
+    return updated;
+  }
+
+  const newWatch: SlotWatch = {
+    ...watch,
+    id: `${watch.unitId}_${watch.date}_${watch.time}_${watch.duration}_${Date.now()}`,
+    createdAt: new Date().toISOString(),
+  };
+
+  await storeWatches([...watches, newWatch]);
+  return newWatch;
+}
+
+/**
+ * Stop watching a slot
+ */
+export async function removeWatch(id: string): Promise<void> {
+  const watches = await getWatches();
+  await storeWatches(watches.filter((w) => w.id !== id));
+}
+
+/**
+ * Stop every watch of an account, e.g. when the account is removed
+ */
+export async function removeAccountWatches(accountId: string): Promise<void> {
+  const watches = await getWatches();
+  await storeWatches(watches.filter((w) => w.accountId !== accountId));
+}
+
+/**
+ * Record the outcome of an auto-book attempt
+ */
+export async function recordWatchOutcome(id: string, outcome: Omit<WatchOutcome, "recordedAt">): Promise<void> {
+  const watches = await getWatches();
+  await storeWatches(
+    watches.map((w) => (w.id === id ? { ...w, outcome: { ...outcome, recordedAt: new Date().toISOString() } } : w))
+  );
+}
+
+/**
+ * Remove watches for slots in the past and return the remaining ones
+ */
+export async function pruneExpiredWatches(): Promise<SlotWatch[]> {
+  const watches = await getWatches();
+  const active = watches.filter((w) => !isWatchExpired(w));
+
+  if (active.length !== watches.length) {
+    await storeWatches(active);
+  }
+
+  return active;
+}
@@ -0,0 +1,108 @@
+import { List, Icon, Color, Action, ActionPanel, openExtensionPreferences } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { LoginFailureReason, LoginResult, LoginStep, testLogin } from "./services/auth";
+import { toCredentials, withAccountName } from "./services/accounts";
+import { useActiveAccount } from "./hooks/use-active-account";
+import { getSiteUrl } from "./services/site";
+
+const FAILURE_HINTS: Record<LoginFailureReason, string> = {
+  network: "The ITEC website could not be reached. Check your connection and try again.",
+  "server-error": "The ITEC website is having problems. Try again later.",
+  "site-changed": "The ITEC website changed. The extension needs an update.",
+  "invalid-credentials":
+    "The site rejected this email and ID number. Check them in the preferences or Manage Accounts.",
+  "no-session": "The site did not start a session. This usually means the login form changed.",
+};
+
+/**
+ * Plain-text report of a login test, for pasting into a bug report
+ */
+function formatReport(steps: LoginStep[], result: LoginResult | null): string {
+  const lines = steps.map((step) => `${step.ok ? "✓" : "✗"} ${step.title}: ${step.detail}`);
+  if (result) {
+    lines.push(result.success ? "Result: logged in" : `Result: ${result.reason} - ${result.message}`);
+  }
+  return lines.join("\n");
+}
+
+export default function Command() {
+  const { account } = useActiveAccount();
+  const [steps, setSteps] = useState<LoginStep[]>([]);
+  const [result, setResult] = useState<LoginResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  async function runTest() {
+    if (!account) {
+      return;
+    }
+
+    setIsLoading(true);
+    setSteps([]);
+    setResult(null);
+
+    const loginResult = await testLogin(toCredentials(account), (step) =>
+      setSteps((prevSteps) => [...prevSteps, step])
+    );
+
+    setResult(loginResult);
+    setIsLoading(false);
+  }
+
+  useEffect(() => {
+    runTest();
+  }, [account?.id]);
+
+  const actions = (
+    <ActionPanel>
+      <Action
+        title="Run Again"
+        icon={Icon.ArrowClockwise}
+        shortcut={{ modifiers: ["cmd"], key: "r" }}
+        onAction={runTest}
+      />
+      <Action.CopyToClipboard title="Copy Report" content={formatReport(steps, result)} />
+      <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+      <Action.OpenInBrowser title="Open Login Page" url={getSiteUrl("/self_services/login")} />
+    </ActionPanel>
+  );
+
+  return (
+    <List isLoading={isLoading} navigationTitle={withAccountName("Test Login", account)}>
+      <List.Section title="Steps">
+        {steps.map((step, index) => (
+          <List.Item
+            key={index}
+            icon={
+              step.ok
+                ? { source: Icon.CheckCircle, tintColor: Color.Green }
+                : { source: Icon.XMarkCircle, tintColor: Color.Red }
+            }
+            title={step.title}
+            subtitle={step.detail}
+            actions={actions}
+          />
+        ))}
+      </List.Section>
+      {result && (
+        <List.Section title="Result">
+          {result.success ? (
+            <List.Item
+              icon={{ source: Icon.Person, tintColor: Color.Green }}
+              title="Logged in"
+              subtitle={account?.email}
+              actions={actions}
+            />
+          ) : (
+            <List.Item
+              icon={{ source: Icon.Warning, tintColor: Color.Red }}
+              title={result.message}
+              subtitle={FAILURE_HINTS[result.reason]}
+              accessories={[{ tag: { value: result.reason, color: Color.Red } }]}
+              actions={actions}
+            />
+          )}
+        </List.Section>
+      )}
+    </List>
+  );
+}
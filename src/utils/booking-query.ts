@@ -0,0 +1,151 @@
+/**
+ * Free-text booking requests, e.g. "tomorrow 20:00 2h ramat hasharon" or "thu 19:30"
+ */
+
+import { BOOKING_WINDOW_DAYS, DURATIONS } from "../constants";
+import { findCentersByName } from "./centers";
+import { combineDateAndTime, formatDate } from "./date";
+
+/**
+ * Everything needed to search for a court; the court itself is picked from the search
+ */
+export interface BookingQuery {
+  unitId: string; // Tennis center ID
+  date: Date;
+  startHour: string; // Format: HH:mm
+  duration: number; // 1, 1.5, 2, or 3
+}
+
+export type BookingQueryResult = { ok: true; query: BookingQuery } | { ok: false; error: string };
+
+const DEFAULT_DURATION = 1;
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Words between the parts that carry no meaning, e.g. "thu at 19:30 for 2h"
+const FILLER_WORDS = ["at", "on", "for", "in"];
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Start time as HH:mm from "20:00", "8:30", "8pm" or "8:30pm"; null when out of range
+ */
+function toStartHour(hours: number, minutes: number, meridiem?: string): string | null {
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Parse a free-text booking request. Recognized parts, in any order:
+ * - day: "today", "tomorrow", a weekday ("thu", "thursday") or a date ("24/10", "24/10/2026")
+ * - start time: "20:00", "19:30", "8pm"
+ * - duration: "2h", "1.5 hours", "90m"; one hour when left out
+ * - center: whatever is left, matched against the English and Hebrew center names; defaultUnitId when empty
+ */
+export function parseBookingQuery(input: string, defaultUnitId: string, now: Date = new Date()): BookingQueryResult {
+  let rest = ` ${input.toLowerCase().replace(/\s+/g, " ").trim()} `;
+
+  // Pull a whole-word part out of the text, leaving the rest for the center name
+  const take = (pattern: string): RegExpMatchArray | null => {
+    const match = rest.match(new RegExp(`(?<=\\s)(?:${pattern})(?=\\s)`));
+    if (match) {
+      rest = rest.replace(match[0], " ");
+    }
+    return match;
+  };
+
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  let startHour: string | null = null;
+  const time = take("(\\d{1,2}):(\\d{2})\\s?(am|pm)?|(\\d{1,2})\\s?(am|pm)");
+  if (time) {
+    startHour = time[1]
+      ? toStartHour(Number(time[1]), Number(time[2]), time[3])
+      : toStartHour(Number(time[4]), 0, time[5]);
+    if (!startHour) {
+      return { ok: false, error: `"${time[0]}" is not a valid time` };
+    }
+  }
+  if (!startHour) {
+    return { ok: false, error: "Add a start time, e.g. 20:00" };
+  }
+
+  let duration = DEFAULT_DURATION;
+  const hours = take("(\\d(?:\\.\\d+)?)\\s?(?:h|hr|hrs|hour|hours)");
+  const minutes = hours ? null : take("(\\d{2,3})\\s?(?:m|min|mins|minutes)");
+  if (hours || minutes) {
+    duration = hours ? Number(hours[1]) : Number(minutes?.[1]) / 60;
+    if (!(DURATIONS as readonly number[]).includes(duration)) {
+      return { ok: false, error: `Courts are booked for ${DURATIONS.join(", ")} hours` };
+    }
+  }
+
+  let date = today;
+  let isWeekday = false;
+  const numericDate = take("(\\d{1,2})/(\\d{1,2})(?:/(\\d{4}))?");
+  if (numericDate) {
+    const [, day, month, year] = numericDate;
+    date = new Date(year ? Number(year) : today.getFullYear(), Number(month) - 1, Number(day));
+    if (date.getDate() !== Number(day)) {
+      return { ok: false, error: `"${numericDate[0]}" is not a valid date` };
+    }
+    // A date without a year that already passed means next year
+    if (!year && date < today) {
+      date.setFullYear(date.getFullYear() + 1);
+    }
+  } else if (take("tomorrow|tmrw|מחר")) {
+    date = addDays(today, 1);
+  } else if (take("today|tonight|היום")) {
+    date = today;
+  } else {
+    const weekday = take(`(${WEEKDAYS.join("|")})[a-z]*`);
+    if (weekday) {
+      const dayIndex = WEEKDAYS.indexOf(weekday[1]);
+      date = addDays(today, (dayIndex - today.getDay() + 7) % 7);
+      isWeekday = true;
+    }
+  }
+
+  // "thu 19:30" on a Thursday evening means next week
+  if (isWeekday && combineDateAndTime(date, startHour) <= now) {
+    date = addDays(date, 7);
+  }
+
+  if (combineDateAndTime(date, startHour) <= now) {
+    return { ok: false, error: `${formatDate(date)} ${startHour} has already passed` };
+  }
+  if (date >= addDays(today, BOOKING_WINDOW_DAYS)) {
+    return { ok: false, error: `Courts can only be booked ${BOOKING_WINDOW_DAYS} days ahead` };
+  }
+
+  const centerText = rest.replace(new RegExp(`(?<=\\s)(?:${FILLER_WORDS.join("|")})(?=\\s)`, "g"), " ").trim();
+  let unitId = defaultUnitId;
+  if (centerText) {
+    const centers = findCentersByName(centerText);
+    if (centers.length === 0) {
+      return { ok: false, error: `No tennis center matches "${centerText}"` };
+    }
+    if (centers.length > 1) {
+      return {
+        ok: false,
+        error: `"${centerText}" matches ${centers.map((center) => center.nameEn).join(", ")}`,
+      };
+    }
+    unitId = centers[0].id;
+  }
+
+  return { ok: true, query: { unitId, date, startHour, duration } };
+}
@@ -0,0 +1,78 @@
+/**
+ * Tennis center lookup utilities
+ */
+
+import { TENNIS_CENTERS, TennisCenter } from "../constants";
+
+/**
+ * Find a tennis center by its unit ID
+ */
+export function getCenterById(unitId: string): TennisCenter | undefined {
+  return TENNIS_CENTERS.find((center) => center.id === unitId);
+}
+
+/**
+ * Get a display name for a tennis center (English, falling back to the unit ID)
+ */
+export function getCenterName(unitId: string): string {
+  return getCenterById(unitId)?.nameEn ?? `Center ${unitId}`;
+}
+
+/**
+ * Get the IDs of all centers in the same region as the given center (including itself)
+ */
+export function getNearbyCenterIds(unitId: string): string[] {
+  const center = getCenterById(unitId);
+  if (!center) {
+    return [unitId];
+  }
+
+  return TENNIS_CENTERS.filter((c) => c.region === center.region).map((c) => c.id);
+}
+
+function normalizeCenterName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Find tennis centers by a typed name, English or Hebrew, ignoring case and punctuation
+ * Exact names win; otherwise every center whose name contains the text matches
+ */
+export function findCentersByName(query: string): TennisCenter[] {
+  const target = normalizeCenterName(query);
+  if (!target) {
+    return [];
+  }
+
+  const names = (center: TennisCenter) => [center.nameEn, center.name].map(normalizeCenterName);
+  const exact = TENNIS_CENTERS.filter((center) => names(center).includes(target));
+  return exact.length > 0 ? exact : TENNIS_CENTERS.filter((center) => names(center).some((n) => n.includes(target)));
+}
+
+/**
+ * Court number and center of a rental, as shown on the site
+ */
+export interface CourtLabel {
+  courtNumber?: number; // e.g. 7
+  centerName?: string; // Hebrew center name, e.g. "ירושלים"
+  unitId?: string; // Tennis center ID, when the name is a known center
+}
+
+/**
+ * Split a rental's court label, e.g. "7 (ירושלים)" -> court 7 at the Jerusalem center (unit 7)
+ */
+export function parseCourtLabel(court: string): CourtLabel {
+  const match = court.match(/^(\d+)\s*\((.+)\)$/);
+  if (!match) {
+    return {};
+  }
+  const centerName = match[2].trim();
+  return {
+    courtNumber: Number(match[1]),
+    centerName,
+    unitId: TENNIS_CENTERS.find((center) => center.name === centerName)?.id,
+  };
+}
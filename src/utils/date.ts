@@ -212,3 +212,83 @@ export function isFutureDate(date: Date): boolean {
   const today = getToday();
   return date >= today;
 }
+
+/**
+ * Format a booking duration in hours for display (e.g. "1.5 hours")
+ */
+export function formatDuration(hours: number): string {
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+/**
+ * Parse a date in ITEC API format (dd/MM/yyyy)
+ */
+export function parseDate(dateStr: string): Date {
+  const [day, month, year] = dateStr.split("/").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Combine a date and a time (HH:mm) into a single Date
+ */
+export function combineDateAndTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const combined = new Date(date);
+  combined.setHours(hours, minutes, 0, 0);
+  return combined;
+}
+
+/**
+ * End time of a booking (HH:mm), e.g. ("20:30", 1.5) -> "22:00"
+ */
+export function getEndTime(startHour: string, duration: number): string {
+  const [hours, minutes] = startHour.split(":").map(Number);
+  const end = hours * 60 + minutes + duration * 60;
+  return `${String(Math.floor(end / 60)).padStart(2, "0")}:${String(end % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Length of a time range in hours, e.g. "20:00-21:30" -> 1.5
+ */
+export function getTimeRangeHours(range: string): number {
+  const [start, end] = range.split("-").map((time) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  });
+  return (end - start) / 60;
+}
+
+/**
+ * Get the Sunday that starts the week of a date, at midnight
+ */
+export function getWeekStart(date: Date): Date {
+  const start = new Date(date);
+  start.setDate(date.getDate() - date.getDay());
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Short time left until a moment, e.g. "in 45m", "in 5h", "in 3d"
+ */
+export function formatTimeUntil(target: Date, now: Date = new Date()): string {
+  const minutes = Math.floor((target.getTime() - now.getTime()) / 60000);
+  if (minutes <= 0) {
+    return "now";
+  }
+  if (minutes < 60) {
+    return `in ${minutes}m`;
+  }
+  if (minutes < 48 * 60) {
+    return `in ${Math.floor(minutes / 60)}h`;
+  }
+  return `in ${Math.floor(minutes / (24 * 60))}d`;
+}
+
+/**
+ * Check that a time is a real HH:mm time of day, e.g. "20:30" but not "25:99"
+ */
+export function isValidTime(time: string): boolean {
+  const match = time.match(/^(\d{2}):(\d{2})$/);
+  return match !== null && Number(match[1]) < 24 && Number(match[2]) < 60;
+}
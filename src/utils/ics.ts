@@ -0,0 +1,142 @@
+/**
+ * iCalendar (RFC 5545) export of court rentals
+ */
+
+import { Rental } from "./parser";
+import { getCenterById, parseCourtLabel } from "./centers";
+
+const TIMEZONE = "Asia/Jerusalem";
+const UID_DOMAIN = "itec-courts.raycast";
+const MAX_LINE_OCTETS = 75; // RFC 5545 3.1, not counting the CRLF
+
+// Israel Standard / Daylight Time rules in force since 2013: DST starts on the Friday before
+// the last Sunday of March and ends on the last Sunday of October, both at 02:00
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIMEZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0300",
+  "TZNAME:IDT",
+  "DTSTART:20130329T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=FR;BYMONTHDAY=23,24,25,26,27,28,29",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:+0300",
+  "TZOFFSETTO:+0200",
+  "TZNAME:IST",
+  "DTSTART:20131027T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line into 75-octet chunks without splitting multi-byte characters (Hebrew is 2 octets each)
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    // Continuation lines start with a space, which counts towards their length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join("\r\n ");
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Local date-time in the rental's timezone, e.g. "20251209T120000"
+ */
+function formatLocalDateTime(date: Date, time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(hours)}${pad(minutes)}00`;
+}
+
+/**
+ * UTC timestamp, e.g. "20251201T101500Z"
+ */
+function formatUtcDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Stable event UID, so importing the file again updates events instead of duplicating them.
+ * Built from the date, start time and court rather than the allocation ID, which the site
+ * stops showing once a rental can no longer be cancelled
+ */
+export function getRentalUid(rental: Rental): string {
+  const start = formatLocalDateTime(rental.dateObj, rental.time.split("-")[0]);
+  // Always read from the court label, so a rental gets the same UID whichever optional fields it carries
+  const { courtNumber, unitId } = parseCourtLabel(rental.court);
+  const court = unitId && courtNumber ? `${unitId}-${courtNumber}` : encodeURIComponent(rental.court);
+  return `rental-${start}-${court}@${UID_DOMAIN}`;
+}
+
+function buildEvent(rental: Rental, timestamp: string): string[] {
+  const [start, end] = rental.time.split("-");
+  const center = rental.unitId ? getCenterById(rental.unitId) : undefined;
+  const summary = rental.courtNumber ? `Tennis - Court ${rental.courtNumber}` : `Tennis - ${rental.court}`;
+  const location = center ? `מרכז הטניס ${center.name} (${center.nameEn} Tennis Center)` : rental.court;
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${getRentalUid(rental)}`,
+    `DTSTAMP:${timestamp}`,
+    `DTSTART;TZID=${TIMEZONE}:${formatLocalDateTime(rental.dateObj, start)}`,
+    `DTEND;TZID=${TIMEZONE}:${formatLocalDateTime(rental.dateObj, end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `LOCATION:${escapeText(location)}`,
+    `DESCRIPTION:${escapeText(`Court ${rental.court}, ${rental.date} ${rental.time}`)}`,
+    "STATUS:CONFIRMED",
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Build an .ics calendar with one event per rental
+ */
+export function buildRentalsCalendar(rentals: Rental[], options: { name: string; now?: Date }): string {
+  const timestamp = formatUtcDateTime(options.now ?? new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ITEC Courts//Raycast Extension//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    ...VTIMEZONE,
+    ...rentals.flatMap((rental) => buildEvent(rental, timestamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
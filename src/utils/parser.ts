@@ -2,6 +2,10 @@
  * HTML parsing utilities for ITEC API responses
  */
 
+import { HTMLElement, parse } from "node-html-parser";
+import { z } from "zod";
+import { parseCourtLabel } from "./centers";
+
 export interface CourtSlot {
   courtNumber: number;
   courtId: number;
@@ -10,63 +14,159 @@ export interface CourtSlot {
   endTime: string;
 }
 
+/**
+ * Thrown when a response is missing the structure a parser relies on, which usually means the site changed.
+ * Returning an empty result instead would look like "no courts" or "no rentals"
+ */
+export class ParseDriftError extends Error {
+  readonly endpoint: string;
+  readonly issues: string[];
+
+  constructor(endpoint: string, issues: string[]) {
+    super(`Unexpected response from ${endpoint}: ${issues.join("; ")}`);
+    this.name = "ParseDriftError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+const UTC_TIME = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2} UTC$/; // e.g. "2025-12-04 21:00:00 UTC"
+const HOUR = /^\d{2}:\d{2}$/; // e.g. "21:00"
+
+const courtSlotSchema: z.ZodType<CourtSlot> = z.object({
+  courtNumber: z.number().int().positive(),
+  courtId: z.number().int().positive(),
+  duration: z.number().positive(),
+  startTime: z.string().regex(UTC_TIME),
+  endTime: z.string().regex(UTC_TIME),
+});
+
+const hourSchema = z.string().regex(HOUR);
+
+/**
+ * Log structure that was expected but missing, without failing the parse
+ */
+function warnParseDrift(endpoint: string, issues: string[]): void {
+  console.warn(`[parse drift] ${endpoint}: ${issues.join("; ")}`);
+}
+
+/**
+ * Validate parsed items against a schema, collecting an issue for every item that does not match
+ */
+function validateItems<T>(
+  schema: z.ZodType<T>,
+  candidates: unknown[],
+  label: string
+): { items: T[]; issues: string[] } {
+  const items: T[] = [];
+  const issues: string[] = [];
+
+  candidates.forEach((candidate, index) => {
+    const result = schema.safeParse(candidate);
+    if (result.success) {
+      items.push(result.data);
+    } else {
+      const problems = result.error.issues.map((issue) => `${issue.path.join(".") || "value"} ${issue.message}`);
+      issues.push(`${label} ${index + 1}: ${problems.join(", ")}`);
+    }
+  });
+
+  return { items, issues };
+}
+
+/**
+ * Text content of an element with whitespace (including &nbsp;) collapsed
+ */
+function getText(element: HTMLElement): string {
+  return element.text.replace(/\s+/g, " ").trim();
+}
+
 /**
  * Check if the response indicates no courts available
  */
 export function isNoCourtsAvailable(html: string): boolean {
+  const root = parse(html);
 
-  if (html.includes("alert-success")) {
+  if (root.querySelector(".alert-success")) {
     return false;
   }
 
-  return html.includes("מועדים אחרים") || html.includes("alert-danger") || html.includes("נסה מועד אחר");
+  const text = root.text;
+  return root.querySelector(".alert-danger") !== null || text.includes("מועדים אחרים") || text.includes("נסה מועד אחר");
 }
 
 /**
  * Parse court slots from HTML response
+ * Each court row has a "מגרש: N" cell and a select_court_invitation link whose query string
+ * holds court_id, duration, start_time and end_time (in any order).
  * Example row:
  * <tr>\n  <td>\n    מגרש: 4\n  </td>\n  <td width="10%"><a class="btn btn-md btn-primary btn-choose" data-type="script" data-remote="true" rel="nofollow" data-method="post" href="/self_services/select_court_invitation.js?court_id=112&amp;duration=1.0&amp;end_time=2025-12-04+22%3A00%3A00+UTC&amp;start_time=2025-12-04+21%3A00%3A00+UTC">בחר&nbsp;&nbsp;<i class='fa fa-arrow-circle-left'></i></a></td>\n</tr>
  */
 export function parseCourtSlots(html: string): CourtSlot[] {
-  const slots: CourtSlot[] = [];
+  const root = parse(html);
+  const links = root.querySelectorAll('a[href*="select_court_invitation"]');
 
-  // 1. Matches "מגרש:" followed by the court number
-  // 2. Scans ahead to find the URL parameters in the href attribute:
-  //    court_id, duration, end_time, and start_time
-  // Note: Matches &amp; because the URL is inside an HTML attribute
-  const rowRegex = /מגרש:\s*(\d+)[\s\S]*?court_id=(\d+)&amp;duration=([\d.]+)&amp;end_time=([^&]+)&amp;start_time=([^"&]+)/g;
+  const candidates = links.map((link) => {
+    const row = link.closest("tr") ?? link;
+    const courtMatch = getText(row).match(/מגרש:\s*(\d+)/);
+    const query = new URLSearchParams((link.getAttribute("href") ?? "").split("?")[1] ?? "");
 
-  let match;
-  while ((match = rowRegex.exec(html)) !== null) {
-    slots.push({
-      courtNumber: parseInt(match[1], 10),
-      courtId: parseInt(match[2], 10),
-      duration: parseFloat(match[3]),
-      endTime: decodeURIComponent(match[4].replace(/\+/g, " ")),
-      startTime: decodeURIComponent(match[5].replace(/\+/g, " ")),
-    });
+    return {
+      courtNumber: Number(courtMatch?.[1]),
+      courtId: Number(query.get("court_id")),
+      duration: Number(query.get("duration")),
+      startTime: query.get("start_time"),
+      endTime: query.get("end_time"),
+    };
+  });
+
+  const { items: slots, issues } = validateItems(courtSlotSchema, candidates, "court link");
+
+  const rowsWithoutLink = root
+    .querySelectorAll("tr")
+    .filter((row) => getText(row).includes("מגרש:") && !row.querySelector('a[href*="select_court_invitation"]'));
+  if (rowsWithoutLink.length > 0) {
+    issues.push(`${rowsWithoutLink.length} court row(s) without a booking link`);
+  }
+
+  if (issues.length > 0 && slots.length === 0) {
+    throw new ParseDriftError("search_court.js", issues);
+  }
+  if (issues.length > 0) {
+    warnParseDrift("search_court.js", issues);
   }
 
   return slots;
 }
 
 export function extractHtmlFromResponse(response: string): string {
+  return extractStepHtml(response, "step-2");
+}
+
+/**
+ * Extract the HTML injected into a wizard step container by a jQuery .js response
+ * Example: jQuery('#step-3').html('<div class=\"panel-order-details\">...</div>');
+ */
+export function extractStepHtml(response: string, stepId: string): string {
   // Captures the content inside the jQuery .html('...') function call
-  const match = response.match(/jQuery\('#step-2'\)\.html\('([\s\S]*?)'\);/);
+  const pattern = new RegExp(`jQuery\\('#${stepId}'\\)\\.html\\('([\\s\\S]*?)'\\);`);
+  const match = response.match(pattern);
 
   if (!match) return "";
 
-  // The content is a JS string literal, so we must unescape it to get valid HTML
+  return unescapeJsString(match[1]);
+}
+
+/**
+ * Unescape the content of a single-quoted JS string literal from a jQuery response
+ */
+function unescapeJsString(literal: string): string {
   // 1. Remove escaped newlines (\n)
-  // 2. Unescape double quotes (\")
+  // 2. Unescape quotes (\" and \')
   // 3. Unescape forward slashes (\/)
-  return match[1]
-    .replace(/\\n/g, "")
-    .replace(/\\"/g, '"')
-    .replace(/\\\//g, "/");
+  return literal.replace(/\\n/g, "").replace(/\\"/g, '"').replace(/\\'/g, "'").replace(/\\\//g, "/");
 }
 
-
 /**
  * Parse the full API response and determine availability status
  */
@@ -77,21 +177,19 @@ export interface CourtAvailability {
   suggestedTimes?: string[]; // Alternative time suggestions when no courts available
 }
 
+/**
+ * Throws a ParseDriftError when the response is neither a courts table nor a "no courts" message
+ */
 export function parseCourtAvailability(response: string): CourtAvailability {
   const html = extractHtmlFromResponse(response);
 
-
+  if (!html) {
+    throw new ParseDriftError("search_court.js", ["no #step-2 content"]);
+  }
 
   if (isNoCourtsAvailable(html)) {
-
-    // console.log("isNoCourtsAvailable");
-
     // Check if there are alternative time suggestions in the HTML
     const suggestedTimes = parseSuggestedTimes(html);
-    
-    if (suggestedTimes.length > 0) {
-      // console.log("Found suggested alternative times:", suggestedTimes);
-    }
 
     return {
       status: "no-courts",
@@ -104,11 +202,11 @@ export function parseCourtAvailability(response: string): CourtAvailability {
   const slots = parseCourtSlots(html);
   const courts = [...new Set(slots.map((s) => s.courtNumber))].sort((a, b) => a - b);
 
-  // If no court rows were found but it's also not Reserved and not the "no courts" message,
-  // it means all courts are booked (taken by other people)
   if (slots.length === 0) {
-
-    // console.log("slots.length === 0");
+    // An empty courts table means all courts are booked (taken by other people)
+    if (!parse(html).querySelector("table")) {
+      throw new ParseDriftError("search_court.js", ["neither a courts table nor a no-courts message"]);
+    }
 
     return {
       status: "no-courts",
@@ -129,21 +227,62 @@ export function parseCourtAvailability(response: string): CourtAvailability {
  * Example: <h3>20:30-21:30</h3> or <h3>21:00-22:00</h3>
  */
 export function parseSuggestedTimes(html: string): string[] {
-  const times: string[] = [];
-  
-  // Match time ranges in <h3> tags like "20:30-21:30" or "21:00-22:00"
-  const timeRegex = /<h3>(\d{2}:\d{2})-\d{2}:\d{2}<\/h3>/g;
-  
-  let match;
-  while ((match = timeRegex.exec(html)) !== null) {
-    const startTime = match[1];
-    if (!times.includes(startTime)) {
-      times.push(startTime);
-      // console.log(`[parseSuggestedTimes] Found suggested time: ${startTime}`);
+  const candidates = parse(html)
+    .querySelectorAll("h3")
+    .map((heading) => getText(heading).match(/^(\d{2}:\d{2})\s*-\s*\d{2}:\d{2}$/)?.[1])
+    .filter((time) => time !== undefined);
+
+  const { items: times, issues } = validateItems(hourSchema, candidates, "suggested time");
+  if (issues.length > 0) {
+    warnParseDrift("search_court.js", issues);
+  }
+
+  return [...new Set(times)];
+}
+
+/**
+ * Parse time slots from the jQuery HTML response
+ * Extracts all available time slots, filtering to show half-hour slots only when
+ * the corresponding full hour is not available
+ * Example: jQuery('#search_start_hour').html('<option value=\"\">בחר שעה</option><option value=\"08:00\">08:00</option>');
+ */
+export function parseTimeSlots(responseText: string): string[] {
+  // Works for both the escaped jQuery payload and plain HTML
+  const options = parse(unescapeJsString(responseText)).querySelectorAll("option");
+
+  if (options.length === 0) {
+    throw new ParseDriftError("set_time_by_unit", ["no start hour options"]);
+  }
+
+  // The placeholder option ("בחר שעה") has an empty value
+  const candidates = options.map((option) => option.getAttribute("value") ?? "").filter((value) => value !== "");
+
+  const { items, issues } = validateItems(hourSchema, candidates, "start hour option");
+  if (issues.length > 0) {
+    warnParseDrift("set_time_by_unit", issues);
+  }
+
+  const allSlots = [...new Set(items)];
+
+  // Filter: include half-hour slots only if the next full hour is not available
+  const filteredSlots: string[] = [];
+
+  for (const slot of allSlots) {
+    if (slot.endsWith(":00")) {
+      // Always include full hours
+      filteredSlots.push(slot);
+    } else if (slot.endsWith(":30")) {
+      // Include half hour only if the next full hour is NOT in the list
+      const [hours] = slot.split(":");
+      const nextHour = String(parseInt(hours) + 1).padStart(2, "0") + ":00";
+
+      if (!allSlots.includes(nextHour)) {
+        filteredSlots.push(slot);
+      }
     }
   }
-  
-  return times;
+
+  return filteredSlots;
 }
 
 /**
@@ -154,11 +293,29 @@ export interface Rental {
   dateObj: Date; // Parsed date object
   time: string; // Time range (e.g., "10:00-11:00")
   court: string; // Court name (e.g., "1 (ירושלים)")
+  courtNumber?: number; // Court number split from the court name (e.g., 1)
+  centerName?: string; // Center name split from the court name (e.g., "ירושלים")
+  unitId?: string; // Tennis center ID of that center, if it is a known one
   allocationId?: string; // Allocation ID for cancellation (if cancellable)
 }
 
+const rentalSchema: z.ZodType<Rental> = z.object({
+  date: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/),
+  dateObj: z.date(),
+  time: z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/),
+  court: z.string().min(1),
+  courtNumber: z.number().int().positive().optional(),
+  centerName: z.string().min(1).optional(),
+  unitId: z.string().optional(),
+  allocationId: z.string().regex(/^\d+$/).optional(),
+});
+
+// Header text of the columns we read from the rentals table
+const RENTAL_COLUMNS = { date: "תאריך", time: "שעה", court: "מגרש" };
+
 /**
  * Parse rental history from HTML response
+ * Columns are located by their header, so added or reordered columns are tolerated
  * Example HTML:
  * <tr class="">
  *   <td>09/12/2025</td>
@@ -171,40 +328,189 @@ export interface Rental {
  * </tr>
  */
 export function parseMyRents(html: string): Rental[] {
-  const rentals: Rental[] = [];
-  
-  // Match table rows with rental data - we need to capture the entire row to check for cancel button
-  const rowRegex = /<tr[^>]*>([\s\S]*?)<\/tr>/g;
-  
-  let match;
-  while ((match = rowRegex.exec(html)) !== null) {
-    const rowHtml = match[1];
-    
-    // Extract date, time, and court from the row
-    const dataMatch = rowHtml.match(/<td>(\d{2}\/\d{2}\/\d{4})<\/td>\s*<td>(\d{2}:\d{2}-\d{2}:\d{2})<\/td>\s*<td>([^<]+)<\/td>/);
-    
-    if (!dataMatch) continue;
-    
-    const dateStr = dataMatch[1]; // e.g., "09/12/2025"
-    const time = dataMatch[2]; // e.g., "12:00-13:00"
-    const court = dataMatch[3].trim(); // e.g., "7 (ירושלים)"
-    
-    // Parse date from dd/MM/yyyy format
-    const [day, month, year] = dateStr.split('/').map(Number);
-    const dateObj = new Date(year, month - 1, day);
-    
-    // Check if there's a cancel button and extract allocation ID
-    const cancelMatch = rowHtml.match(/cancel_rent_allocation\/(\d+)\.js/);
-    const allocationId = cancelMatch ? cancelMatch[1] : undefined;
-    
-    rentals.push({
-      date: dateStr,
-      dateObj,
-      time,
-      court,
-      allocationId,
+  const root = parse(html);
+
+  const table = root
+    .querySelectorAll("table")
+    .find((candidate) => candidate.querySelectorAll("th").some((th) => getText(th) === RENTAL_COLUMNS.date));
+
+  if (!table) {
+    throw new ParseDriftError("my_rents", [`no table with a "${RENTAL_COLUMNS.date}" column`]);
+  }
+
+  const headers = table.querySelectorAll("th").map(getText);
+  const columns = {
+    date: headers.indexOf(RENTAL_COLUMNS.date),
+    time: headers.indexOf(RENTAL_COLUMNS.time),
+    court: headers.indexOf(RENTAL_COLUMNS.court),
+  };
+
+  const missingColumns = Object.entries(columns)
+    .filter(([, index]) => index === -1)
+    .map(([name]) => `missing "${RENTAL_COLUMNS[name as keyof typeof RENTAL_COLUMNS]}" column`);
+  if (missingColumns.length > 0) {
+    throw new ParseDriftError("my_rents", missingColumns);
+  }
+
+  const candidates = table
+    .querySelectorAll("tr")
+    .map((row) => row.querySelectorAll("td"))
+    .filter((cells) => cells.length > 0)
+    .map((cells) => {
+      const date = cells[columns.date] ? getText(cells[columns.date]) : "";
+      const [day, month, year] = date.split("/").map(Number);
+      const cancelHref = cells
+        .map((cell) => cell.querySelector('a[href*="cancel_rent_allocation"]'))
+        .find((link) => link !== null)
+        ?.getAttribute("href");
+
+      const court = cells[columns.court] ? getText(cells[columns.court]) : "";
+
+      return {
+        date,
+        dateObj: new Date(year, month - 1, day),
+        time: cells[columns.time] ? getText(cells[columns.time]) : "",
+        court,
+        ...parseCourtLabel(court),
+        allocationId: cancelHref?.match(/cancel_rent_allocation\/(\d+)/)?.[1],
+      };
     });
+
+  const { items: rentals, issues } = validateItems(rentalSchema, candidates, "rental row");
+  if (issues.length > 0) {
+    warnParseDrift("my_rents", issues);
   }
-  
+
   return rentals;
 }
+
+/**
+ * Link that completes a court invitation (the "next" button of step 3)
+ */
+export interface ConfirmationLink {
+  path: string; // e.g. "/self_services/complete_invitation"
+  method: string; // HTTP method from data-method, defaults to GET
+}
+
+const confirmationLinkSchema: z.ZodType<ConfirmationLink> = z.object({
+  path: z.string().startsWith("/"),
+  method: z.enum(["GET", "POST", "PUT", "PATCH"]),
+});
+
+/**
+ * Parse the step 3 order details for the link that completes the booking
+ * Example: <a class="btn btn-blue" data-remote="true" data-method="post" href="/self_services/complete_invitation.js">...</a>
+ */
+export function parseConfirmationLink(html: string): ConfirmationLink | null {
+  const anchor = parse(html).querySelector('a[href*="/self_services/complete_invitation"]');
+
+  if (!anchor) {
+    return null;
+  }
+
+  const { items, issues } = validateItems(
+    confirmationLinkSchema,
+    [{ path: anchor.getAttribute("href"), method: (anchor.getAttribute("data-method") ?? "GET").toUpperCase() }],
+    "confirmation link"
+  );
+  if (issues.length > 0) {
+    warnParseDrift("select_court_invitation.js", issues);
+  }
+
+  return items[0] ?? null;
+}
+
+/**
+ * Outcome of the final booking step
+ */
+export interface BookingOutcome {
+  status: "success" | "error" | "unknown";
+  message: string; // Text shown by the site, stripped of markup
+}
+
+// Confirmation the site shows on step 4, in case it is rendered outside a success alert
+const BOOKING_SUCCESS_MESSAGE = "בוצעה בהצלחה";
+
+// Failure messages the site shows on step 4, in case one is rendered outside a danger/warning alert
+const BOOKING_FAILURE_MESSAGES = ["המגרש כבר הוזמן", "ההזמנה נכשלה", "ההזמנה לא בוצעה"];
+
+/**
+ * Parse the step 4 confirmation HTML for the booking outcome
+ * Only the site's danger/warning alerts and known failure messages count as a refusal: a refusal stops
+ * any retry, so a stray "error" class or word on a success page must not be read as one
+ * Likewise only a success alert or the site's confirmation text count as a booking; anything else is unknown
+ */
+export function parseBookingOutcome(html: string): BookingOutcome {
+  const root = parse(html);
+  const text = getText(root);
+  const message = getText(root.querySelector('div[class*="alert"]') ?? root).substring(0, 300);
+
+  const hasError =
+    root.querySelector(".alert-danger, .alert-warning") !== null ||
+    BOOKING_FAILURE_MESSAGES.some((failure) => text.includes(failure));
+
+  if (hasError) {
+    return { status: "error", message };
+  }
+
+  const hasSuccess = root.querySelector(".alert-success") !== null || text.includes(BOOKING_SUCCESS_MESSAGE);
+
+  return { status: hasSuccess ? "success" : "unknown", message };
+}
+
+/**
+ * Find a message the site shows from a .js response, either an alert() or an error container rendered by .html('...')
+ */
+function findScriptMessage(response: string): string | null {
+  const alertMatch = response.match(/alert\(\s*'((?:\\.|[^'\\])*)'\s*\)|alert\(\s*"((?:\\.|[^"\\])*)"\s*\)/);
+  if (alertMatch) {
+    return getText(parse(unescapeJsString(alertMatch[1] ?? alertMatch[2]))) || null;
+  }
+
+  // Error containers rendered into the page by .html('...')
+  const htmlPattern = /\.html\(\s*'((?:\\.|[^'\\])*)'\s*\)/g;
+  let match;
+  while ((match = htmlPattern.exec(response)) !== null) {
+    const container = parse(unescapeJsString(match[1])).querySelector(
+      '[class*="error"], [class*="danger"], [class*="alert"]'
+    );
+    if (container) {
+      return getText(container) || null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse the site's own error message from a login.js response
+ * Example: jQuery('#login-errors').html('<div class=\"alert alert-danger\">פרטים שגויים</div>'); or alert('...');
+ * Returns null when the response carries no error message
+ */
+export function parseLoginError(response: string): string | null {
+  return findScriptMessage(response);
+}
+
+/**
+ * Outcome of a cancel_rent_allocation.js request
+ */
+export interface CancellationOutcome {
+  status: "success" | "error" | "unknown";
+  message: string; // Text shown by the site, if any
+}
+
+/**
+ * Parse the response to cancelling an allocation
+ * Example success: jQuery('#rent_allocation_8119602').remove();
+ * Example error: alert('לא ניתן לבטל את ההשכרה');
+ * A message without the row being removed is an error, unless it says the action succeeded ("בהצלחה")
+ */
+export function parseCancellationOutcome(response: string, allocationId: string): CancellationOutcome {
+  const message = findScriptMessage(response) ?? "";
+  const removesRow = new RegExp(`rent_allocation_${allocationId}\\W[^;]*\\.(remove|hide|fadeOut)\\(`).test(response);
+
+  if (removesRow || message.includes("בהצלחה")) {
+    return { status: "success", message };
+  }
+  return { status: message ? "error" : "unknown", message };
+}
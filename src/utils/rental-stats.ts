@@ -0,0 +1,105 @@
+/**
+ * Play statistics over the stored rental history
+ */
+
+import { HistoryEntry, getEntryHours, getEntryStart } from "../services/history";
+import { getCenterName, parseCourtLabel } from "./centers";
+import { getWeekday } from "./date";
+
+/**
+ * Sessions and hours played, grouped by some label
+ */
+export interface StatGroup {
+  label: string; // e.g. "Dec 2025", "Court 7 (Jerusalem)", "20:00", "Tue"
+  sessions: number;
+  hours: number;
+}
+
+export interface RentalStats {
+  sessionsPlayed: number;
+  hoursPlayed: number;
+  cancellationRate: number; // Share of past and cancelled rentals that were cancelled, 0 to 1
+  hoursByMonth: StatGroup[]; // Most recent month first
+  favoriteCourts: StatGroup[]; // Most played first
+  favoriteTimes: StatGroup[]; // Start times, most played first
+  byWeekday: StatGroup[]; // Sunday to Saturday, including days never played
+  byCenter: StatGroup[]; // Most played first
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Group played entries by a key, keeping the first label seen for it
+ */
+function groupBy(entries: HistoryEntry[], getKey: (entry: HistoryEntry) => [key: string, label: string]) {
+  const groups = new Map<string, StatGroup>();
+  for (const entry of entries) {
+    const [key, label] = getKey(entry);
+    const group = groups.get(key) ?? { label, sessions: 0, hours: 0 };
+    group.sessions += 1;
+    group.hours += getEntryHours(entry);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+function byMostPlayed(groups: Map<string, StatGroup>): StatGroup[] {
+  return [...groups.values()].sort((a, b) => b.sessions - a.sessions || b.hours - a.hours);
+}
+
+function getCourtGroup(entry: HistoryEntry): [string, string] {
+  const { courtNumber, unitId } = parseCourtLabel(entry.court);
+  return courtNumber && unitId
+    ? [entry.court, `Court ${courtNumber} (${getCenterName(unitId)})`]
+    : [entry.court, entry.court];
+}
+
+function getCenterGroup(entry: HistoryEntry): [string, string] {
+  const { centerName, unitId } = parseCourtLabel(entry.court);
+  return unitId ? [unitId, getCenterName(unitId)] : [centerName ?? "unknown", centerName ?? "Unknown center"];
+}
+
+/**
+ * Compute play statistics. Only played rentals count towards hours and favorites
+ */
+export function computeRentalStats(entries: HistoryEntry[]): RentalStats {
+  const played = entries.filter((entry) => entry.status === "played");
+  const cancelled = entries.filter((entry) => entry.status === "cancelled").length;
+
+  const hoursByMonth = groupBy(played, (entry) => {
+    const start = getEntryStart(entry);
+    const key = `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, "0")}`;
+    return [key, `${MONTHS[start.getMonth()]} ${start.getFullYear()}`];
+  });
+
+  const weekdays = groupBy(played, (entry) => {
+    const weekday = getWeekday(getEntryStart(entry));
+    return [weekday, weekday];
+  });
+
+  return {
+    sessionsPlayed: played.length,
+    hoursPlayed: played.reduce((total, entry) => total + getEntryHours(entry), 0),
+    cancellationRate: cancelled / (played.length + cancelled || 1),
+    hoursByMonth: [...hoursByMonth.entries()].sort(([a], [b]) => b.localeCompare(a)).map(([, group]) => group),
+    favoriteCourts: byMostPlayed(groupBy(played, getCourtGroup)),
+    favoriteTimes: byMostPlayed(groupBy(played, (entry) => [entry.time.split("-")[0], entry.time.split("-")[0]])),
+    byWeekday: WEEKDAYS.map((weekday) => weekdays.get(weekday) ?? { label: weekday, sessions: 0, hours: 0 }),
+    byCenter: byMostPlayed(groupBy(played, getCenterGroup)),
+  };
+}
+
+/**
+ * Court numbers played at a center, most played first, e.g. to prefer them when booking there
+ */
+export function getFavoriteCourtNumbers(entries: HistoryEntry[], unitId: string): number[] {
+  const sessions = new Map<number, number>();
+  for (const entry of entries) {
+    const { courtNumber, unitId: entryUnitId } = parseCourtLabel(entry.court);
+    if (entry.status === "played" && courtNumber && entryUnitId === unitId) {
+      sessions.set(courtNumber, (sessions.get(courtNumber) ?? 0) + 1);
+    }
+  }
+  return [...sessions.entries()].sort(([, a], [, b]) => b - a).map(([courtNumber]) => courtNumber);
+}
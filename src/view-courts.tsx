@@ -1,14 +1,23 @@
-import { List, getPreferenceValues, showToast, Toast, Color, Icon, Action, ActionPanel, Cache, open, Clipboard, showHUD, confirmAlert } from "@raycast/api";
+import { List, getPreferenceValues, showToast, Toast, Color, Icon, Action, ActionPanel, Cache, open, Clipboard, showHUD, confirmAlert, Form, LocalStorage, useNavigation } from "@raycast/api";
 import { useState, useEffect } from "react";
-import { searchCourts, fetchTimeSlots, selectCourt } from "./services/api";
-import { getToday, getNextDays, generateTimeSlotsForDate, formatDisplayDateTime, formatDateDisplay } from "./utils/date";
+import { searchCourts, fetchTimeSlots } from "./services/api";
+import { getToday, getNextDays, generateTimeSlotsForDate, formatDisplayDateTime, formatDateDisplay, formatDuration, formatDate, combineDateAndTime, getEndTime } from "./utils/date";
 import { CourtAvailability, CourtSlot } from "./utils/parser";
-import { bookCourtAutomatically } from "./services/puppeteer";
+import { bookCourt } from "./services/booking";
+import { bookGroup, buildGroupBookings } from "./services/group-booking";
+import { scanCentersDay } from "./services/scan";
+import { getCenterById, getCenterName, getNearbyCenterIds } from "./utils/centers";
+import { addWatch, getWatches } from "./services/watches";
+import { Account, DEFAULT_ACCOUNT_ID, toCredentials, withAccountName } from "./services/accounts";
+import { useActiveAccount } from "./hooks/use-active-account";
+import { TENNIS_CENTERS, DURATIONS, Duration, BOOKING_WINDOW_DAYS } from "./constants";
+import { ApiError, toApiError } from "./services/errors";
+import { ErrorRecoveryActions } from "./components/error-actions";
+import { getSiteUrl } from "./services/site";
+import { addBookingToCalendar, getBookingSummary } from "./services/calendar";
 
 interface Preferences {
   tennisCenter: string;
-  email: string;
-  userId: string;
 }
 
 interface TimeSlotResult {
@@ -16,26 +25,264 @@ interface TimeSlotResult {
   date: Date;
   time: string;
   availability: CourtAvailability | null;
+  error?: ApiError; // Why availability could not be checked
   isLoading: boolean;
   isRangeStart?: boolean; // For consolidated reserved ranges
   rangeEnd?: string; // End time of reserved range
+  rangeTimes?: string[]; // All start times in reserved range
 }
 
 // Cache for reserved slots (persists across extension sessions)
 const reservedCache = new Cache();
 
+/**
+ * Watch a fully booked slot so the background check notifies when it frees up
+ */
+async function watchSlot(account: Account, unitId: string, date: Date, time: string, duration: number): Promise<void> {
+  await addWatch({ accountId: account.id, unitId, date: formatDate(date), time, duration });
+  await showToast({
+    style: Toast.Style.Success,
+    title: "Watching slot",
+    message: `You'll be notified when a court frees up at ${time}`,
+  });
+}
+
+function AutoBookForm({
+  account,
+  unitId,
+  date,
+  times,
+  duration,
+  onSave,
+}: {
+  account: Account;
+  unitId: string;
+  date: Date;
+  times: string[];
+  duration: number;
+  onSave?: (time: string) => void;
+}) {
+  const { pop } = useNavigation();
+  const [time, setTime] = useState(times[0]);
+
+  async function handleSubmit(values: {
+    preferredCourts: string;
+    anyCourt: boolean;
+    maxDuration: string;
+    deadline: Date | null;
+  }) {
+    const preferredCourts = values.preferredCourts
+      .split(/[\s,]+/)
+      .map((c) => parseInt(c, 10))
+      .filter((c) => !isNaN(c));
+
+    await addWatch({
+      accountId: account.id,
+      unitId,
+      date: formatDate(date),
+      time,
+      duration,
+      autoBook: {
+        preferredCourts,
+        anyCourt: values.anyCourt,
+        maxDuration: Number(values.maxDuration),
+        deadline: (values.deadline ?? combineDateAndTime(date, time)).toISOString(),
+      },
+    });
+
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Auto-book armed",
+      message: `A court will be booked if one frees up at ${time}`,
+    });
+
+    onSave?.(time);
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={withAccountName("Auto-Book When Free", account)}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Arm Auto Book" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={`${getCenterName(unitId)} · ${formatDateDisplay(date)}`} />
+      {times.length > 1 && (
+        <Form.Dropdown id="time" title="Start Time" value={time} onChange={setTime}>
+          {times.map((t) => (
+            <Form.Dropdown.Item key={t} value={t} title={t} />
+          ))}
+        </Form.Dropdown>
+      )}
+      <Form.TextField
+        id="preferredCourts"
+        title="Preferred Courts"
+        placeholder="4, 2"
+        info="Court numbers in order of preference"
+      />
+      <Form.Checkbox id="anyCourt" label="Otherwise book any free court" defaultValue={true} />
+      <Form.Dropdown id="maxDuration" title="Maximum Duration" defaultValue={String(duration)}>
+        {DURATIONS.filter((d) => d >= duration).map((d) => (
+          <Form.Dropdown.Item key={d} value={String(d)} title={formatDuration(d)} />
+        ))}
+      </Form.Dropdown>
+      <Form.DatePicker
+        id="deadline"
+        title="Deadline"
+        info="Stop trying after this moment"
+        defaultValue={combineDateAndTime(date, time)}
+      />
+    </Form>
+  );
+}
+
+/**
+ * Book several courts at the same time, or back-to-back blocks of the same courts, as one group
+ */
+function GroupBookingForm({
+  account,
+  unitId,
+  date,
+  time,
+  duration,
+  slots,
+  initialCourt,
+}: {
+  account: Account;
+  unitId: string;
+  date: Date;
+  time: string;
+  duration: number;
+  slots: CourtSlot[];
+  initialCourt: number;
+}) {
+  const { pop } = useNavigation();
+
+  async function handleSubmit(values: { courts: string[]; blocks: string; allOrNothing: boolean }) {
+    const courts = slots.filter((slot) => values.courts.includes(String(slot.courtNumber)));
+    if (courts.length === 0) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose at least one court" });
+      return;
+    }
+
+    const request = {
+      unitId,
+      date,
+      startHour: time,
+      duration,
+      blocks: Number(values.blocks),
+      courts,
+    };
+    const total = buildGroupBookings(request).length;
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Booking group", message: `0 of ${total}` });
+
+    const result = await bookGroup(request, toCredentials(account), {
+      allOrNothing: values.allOrNothing,
+      onProgress: (done) => {
+        toast.message = `${done} of ${total}`;
+      },
+    });
+
+    const firstFailure = result.failed[0]?.message ?? "";
+    toast.style = result.status === "booked" ? Toast.Style.Success : Toast.Style.Failure;
+    switch (result.status) {
+      case "booked":
+        toast.title = `Booked ${total} court${total === 1 ? "" : "s"}`;
+        toast.message = undefined;
+        break;
+      case "failed":
+        toast.title = "Group not booked";
+        toast.message = firstFailure;
+        break;
+      case "partial":
+        toast.title = `Booked ${result.booked.length} of ${total}`;
+        toast.message = firstFailure;
+        break;
+      case "rolled-back":
+        toast.title = "Group not booked";
+        toast.message = `${firstFailure}. Cancelled the ${result.rollback.length} already booked`;
+        break;
+      case "rollback-incomplete":
+        toast.title = "Group failed and could not be fully undone";
+        toast.message = `${firstFailure}. May still be booked: ${result.rollback
+          .filter((item) => item.status !== "cancelled")
+          .map((item) => `${item.rental.time} court ${item.rental.courtNumber ?? item.rental.court}`)
+          .join(", ")}`;
+        break;
+    }
+
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={withAccountName("Group Booking", account)}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Book Group" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={`${getCenterName(unitId)} · ${formatDateDisplay(date)} · from ${time}`} />
+      <Form.TagPicker id="courts" title="Courts" defaultValue={[String(initialCourt)]}>
+        {slots.map((slot) => (
+          <Form.TagPicker.Item
+            key={slot.courtId}
+            value={String(slot.courtNumber)}
+            title={`Court ${slot.courtNumber}`}
+          />
+        ))}
+      </Form.TagPicker>
+      {/* Not editable: the courts offered were only checked as free for the searched duration */}
+      <Form.Description title="Duration" text={formatDuration(duration)} />
+      <Form.Dropdown
+        id="blocks"
+        title="Back-to-Back"
+        defaultValue="1"
+        info="Book the same courts again right after each block"
+      >
+        {[1, 2, 3].map((blocks) => (
+          <Form.Dropdown.Item
+            key={blocks}
+            value={String(blocks)}
+            title={`${blocks === 1 ? "Single block" : `${blocks} blocks`} (${time}-${getEndTime(
+              time,
+              duration * blocks
+            )})`}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.Checkbox
+        id="allOrNothing"
+        label="All or nothing"
+        info="If any court cannot be booked, cancel the ones already booked"
+        defaultValue={true}
+      />
+    </Form>
+  );
+}
+
 function CourtsList({
   slots,
   time,
   date,
+  unitId,
+  duration: scannedDuration,
+  account,
   onBack
 }: {
   slots: CourtSlot[];
   time: string;
   date: Date;
+  unitId: string;
+  duration: number;
+  account: Account;
   onBack: () => void;
 }) {
-  const preferences = getPreferenceValues<Preferences>();
+  const credentials = toCredentials(account);
   const [availabilityByDuration, setAvailabilityByDuration] = useState<Map<number, Map<number, CourtAvailability>>>(new Map());
   const [isLoadingDurations, setIsLoadingDurations] = useState(true);
   const [isBooking, setIsBooking] = useState(false);
@@ -45,24 +292,25 @@ function CourtsList({
 
   useEffect(() => {
     async function fetchDurationAvailability() {
-      const durations = [1, 2, 3]; // Check 1, 2, and 3 hour durations
       const availabilityMap = new Map<number, Map<number, CourtAvailability>>();
 
-      for (const duration of durations) {
+      for (const duration of DURATIONS) {
         const courtMap = new Map<number, CourtAvailability>();
 
-        const availability = await searchCourts(
-          {
-            unitId: preferences.tennisCenter,
-            date: date,
-            startHour: time,
-            duration: duration,
-          },
-          {
-            email: preferences.email,
-            userId: preferences.userId,
-          }
-        );
+        let availability: CourtAvailability | null = null;
+        try {
+          availability = await searchCourts(
+            {
+              unitId: unitId,
+              date: date,
+              startHour: time,
+              duration: duration,
+            },
+            credentials
+          );
+        } catch (error) {
+          console.error(`Error checking ${formatDuration(duration)} at ${time}:`, error);
+        }
 
         if (availability && availability.status === "available") {
           // Map by court number
@@ -79,9 +327,9 @@ function CourtsList({
     }
 
     fetchDurationAvailability();
-  }, [time, date, preferences.tennisCenter, preferences.email, preferences.userId]);
+  }, [time, date, unitId, account.id]);
   const handleOpenBookingPage = async () => {
-    await open("https://center.tennis.org.il/self_services/court_invitation");
+    await open(getSiteUrl("/self_services/court_invitation"));
   };
 
   const handleBookCourt = async (slot: CourtSlot, duration: number = 1) => {
@@ -96,7 +344,7 @@ function CourtsList({
 
     const confirmed = await confirmAlert({
       title: "Confirm Booking",
-      message: `Book Court ${slot.courtNumber} at ${time} for ${duration} hour${duration > 1 ? 's' : ''}?`,
+      message: `Book Court ${slot.courtNumber} at ${time} for ${formatDuration(duration)}?`,
       primaryAction: {
         title: "Book Court",
       },
@@ -109,22 +357,41 @@ function CourtsList({
     setIsBooking(true);
 
     try {
-      const success = await bookCourtAutomatically({
-        unitId: preferences.tennisCenter,
-        courtId: slot.courtId,
-        courtNumber: slot.courtNumber,
-        date: date,
-        startHour: time,
-        duration: duration,
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Booking court",
+        message: `Court ${slot.courtNumber} at ${time}...`,
       });
 
-      if (success) {
-        await showToast({
-          style: Toast.Style.Success,
-          title: "Booking completed!",
-          message: `Court ${slot.courtNumber} has been booked`,
-        });
+      const result = await bookCourt(
+        {
+          unitId: unitId,
+          courtId: slot.courtId,
+          courtNumber: slot.courtNumber,
+          date: date,
+          startHour: time,
+          duration: duration,
+        },
+        credentials
+      );
+
+      if (!result.success) {
+        throw new Error(result.message);
       }
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Booking completed!",
+        message: `Court ${slot.courtNumber} has been booked`,
+        primaryAction: {
+          title: "Add to Calendar",
+          onAction: () => addBookingToCalendar(result.params),
+        },
+        secondaryAction: {
+          title: "Copy Summary",
+          onAction: () => Clipboard.copy(getBookingSummary(result.params)),
+        },
+      });
     } catch (error) {
       console.error("Error booking court:", error);
       await showToast({
@@ -150,7 +417,7 @@ function CourtsList({
 
   return (
     <List
-      navigationTitle={`Select Court - ${time}`}
+      navigationTitle={withAccountName(`Select Court - ${time}`, account)}
       searchBarPlaceholder="Choose a court..."
       isLoading={isLoadingDurations || isBooking}
     >
@@ -162,25 +429,44 @@ function CourtsList({
             key={slot.courtId}
             icon={{ source: Icon.TennisBall, tintColor: Color.Green }}
             title={`Court ${slot.courtNumber}`}
-            subtitle={availableDurations.length > 0 ? `Up to ${Math.max(...availableDurations)} hour${Math.max(...availableDurations) > 1 ? 's' : ''}` : ''}
+            subtitle={availableDurations.length > 0 ? `Up to ${formatDuration(Math.max(...availableDurations))}` : ''}
+            accessories={availableDurations.map((duration) => ({
+              tag: { value: `${duration}h`, color: duration === scannedDuration ? Color.Green : Color.Blue },
+            }))}
             actions={
               <ActionPanel>
                 <ActionPanel.Section title="Booking">
                   {availableDurations.map((duration) => (
                     <Action
                       key={duration}
-                      title={`Book for ${duration} Hour${duration > 1 ? 's' : ''}`}
+                      title={`Book for ${formatDuration(duration)}`}
                       icon={Icon.CheckCircle}
                       onAction={() => handleBookCourt(slot, duration)}
                     />
                   ))}
                   {availableDurations.length === 0 && (
                     <Action
-                      title="Book for 1 Hour"
+                      title={`Book for ${formatDuration(scannedDuration)}`}
                       icon={Icon.CheckCircle}
-                      onAction={() => handleBookCourt(slot, 1)}
+                      onAction={() => handleBookCourt(slot, scannedDuration)}
                     />
                   )}
+                  <Action.Push
+                    title="Book as Group"
+                    icon={Icon.TwoPeople}
+                    shortcut={{ modifiers: ["cmd"], key: "g" }}
+                    target={
+                      <GroupBookingForm
+                        account={account}
+                        unitId={unitId}
+                        date={date}
+                        time={time}
+                        duration={scannedDuration}
+                        slots={slots}
+                        initialCourt={slot.courtNumber}
+                      />
+                    }
+                  />
                 </ActionPanel.Section>
                 <ActionPanel.Section title="Other Actions">
                   <Action title="Go Back" icon={Icon.ArrowLeft} onAction={onBack} />
@@ -194,11 +480,51 @@ function CourtsList({
   );
 }
 
-function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
+function CourtsForDate({ selectedDate, duration, account }: { selectedDate: Date; duration: Duration; account: Account }) {
   const preferences = getPreferenceValues<Preferences>();
+  const credentials = toCredentials(account);
   const [results, setResults] = useState<TimeSlotResult[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedTimeSlot, setSelectedTimeSlot] = useState<{ slots: CourtSlot[]; time: string } | null>(null);
+  const [watchedTimes, setWatchedTimes] = useState<string[]>([]);
+
+  useEffect(() => {
+    getWatches().then((watches) => {
+      setWatchedTimes(
+        watches
+          .filter(
+            (w) =>
+              w.unitId === preferences.tennisCenter &&
+              w.date === formatDate(selectedDate) &&
+              w.duration === duration &&
+              (w.accountId ?? DEFAULT_ACCOUNT_ID) === account.id
+          )
+          .map((w) => w.time)
+      );
+    });
+  }, [selectedDate, duration]);
+
+  const handleWatch = async (time: string) => {
+    await watchSlot(account, preferences.tennisCenter, selectedDate, time, duration);
+    setWatchedTimes((prevTimes) => [...prevTimes, time]);
+  };
+
+  const retrySlot = async (time: string) => {
+    const updateSlot = (update: Partial<TimeSlotResult>) =>
+      setResults((prevResults) => prevResults.map((r) => (r.time === time ? { ...r, ...update } : r)));
+
+    updateSlot({ isLoading: true, error: undefined });
+
+    try {
+      const availability = await searchCourts(
+        { unitId: preferences.tennisCenter, date: selectedDate, startHour: time, duration },
+        credentials
+      );
+      updateSlot({ availability, isLoading: false });
+    } catch (error) {
+      updateSlot({ availability: null, error: toApiError(error), isLoading: false });
+    }
+  };
 
   useEffect(() => {
     let isCancelled = false;
@@ -223,10 +549,7 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
         const availableTimeSlots = await fetchTimeSlots(
           preferences.tennisCenter,
           selectedDate,
-          {
-            email: preferences.email,
-            userId: preferences.userId,
-          }
+          credentials
         );
 
         // console.log(`[fetchCourts] Received ${availableTimeSlots.length} time slots from API:`, availableTimeSlots);
@@ -269,22 +592,23 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
             const actualIndex = batchStart + batchIndex;
             // console.log(`[fetchCourts] Fetching slot ${actualIndex}: ${slot.time}`);
 
-            const availability = await searchCourts(
-              {
-                unitId: preferences.tennisCenter,
-                date: slot.date,
-                startHour: slot.time,
-                duration: 1,
-              },
-              {
-                email: preferences.email,
-                userId: preferences.userId,
-              }
-            );
+            try {
+              const availability = await searchCourts(
+                {
+                  unitId: preferences.tennisCenter,
+                  date: slot.date,
+                  startHour: slot.time,
+                  duration: duration,
+                },
+                credentials
+              );
 
-            // console.log(`[fetchCourts] Received availability for ${slot.time} (index ${actualIndex}):`, availability?.status);
+              // console.log(`[fetchCourts] Received availability for ${slot.time} (index ${actualIndex}):`, availability?.status);
 
-            return { index: actualIndex, availability };
+              return { index: actualIndex, availability, error: undefined };
+            } catch (error) {
+              return { index: actualIndex, availability: null, error: toApiError(error) };
+            }
           });
 
           const batchResults = await Promise.all(batchPromises);
@@ -307,11 +631,12 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
           // console.log(`[fetchCourts] Updating results for indices:`, batchResults.map(r => r.index));
           setResults((prevResults) => {
             const newResults = [...prevResults];
-            batchResults.forEach(({ index, availability }) => {
+            batchResults.forEach(({ index, availability, error }) => {
               // console.log(`[fetchCourts] Setting index ${index} (${newResults[index]?.time}) to isLoading=false, status=${availability?.status}`);
               newResults[index] = {
                 ...newResults[index],
                 availability,
+                error,
                 isLoading: false,
               };
             });
@@ -383,18 +708,21 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
               if (isCancelled) return;
 
               // console.log(`[fetchCourts] Fetching availability for suggested time: ${time}`);
-              const availability = await searchCourts(
-                {
-                  unitId: preferences.tennisCenter,
-                  date: selectedDate,
-                  startHour: time,
-                  duration: 1,
-                },
-                {
-                  email: preferences.email,
-                  userId: preferences.userId,
-                }
-              );
+              let availability: CourtAvailability | null = null;
+              let error: ApiError | undefined;
+              try {
+                availability = await searchCourts(
+                  {
+                    unitId: preferences.tennisCenter,
+                    date: selectedDate,
+                    startHour: time,
+                    duration: duration,
+                  },
+                  credentials
+                );
+              } catch (e) {
+                error = toApiError(e);
+              }
 
               // console.log(`[fetchCourts] Received availability for suggested time ${time}:`, availability?.status);
 
@@ -406,6 +734,7 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
                     newResults[index] = {
                       ...newResults[index],
                       availability,
+                      error,
                       isLoading: false,
                     };
                   }
@@ -461,6 +790,7 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
                 ...current,
                 isRangeStart: true,
                 rangeEnd: prevResults[endIndex].time,
+                rangeTimes: prevResults.slice(i, endIndex + 1).map((r) => r.time),
               });
             }
 
@@ -508,7 +838,7 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
       // console.log(`[fetchCourts] Cleanup - cancelling fetch for ${selectedDate.toDateString()}`);
       isCancelled = true;
     };
-  }, [selectedDate]);
+  }, [selectedDate, duration]);
 
   if (selectedTimeSlot) {
     return (
@@ -516,6 +846,9 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
         slots={selectedTimeSlot.slots}
         time={selectedTimeSlot.time}
         date={selectedDate}
+        unitId={preferences.tennisCenter}
+        duration={duration}
+        account={account}
         onBack={() => setSelectedTimeSlot(null)}
       />
     );
@@ -523,9 +856,9 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
 
   return (
     <List isLoading={isLoading} searchBarPlaceholder={`${formatDateDisplay(selectedDate)}`}
-      navigationTitle={formatDateDisplay(selectedDate)}>
+      navigationTitle={withAccountName(`${formatDateDisplay(selectedDate)} - ${formatDuration(duration)}`, account)}>
       {results.filter((r) => r != null && r.time != null).map((result, index) => {
-        const { availability, time, isLoading, isRangeStart, rangeEnd } = result;
+        const { availability, error, time, isLoading, isRangeStart, rangeEnd, rangeTimes } = result;
 
         // Determine the status and accessories
         let icon: Icon;
@@ -539,9 +872,9 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
           iconTint = Color.SecondaryText;
           subtitle = "Loading...";
         } else if (!availability) {
-          icon = Icon.XMarkCircle;
-          iconTint = Color.Red;
-          subtitle = "Error";
+          icon = Icon.ExclamationMark;
+          iconTint = Color.Orange;
+          subtitle = error?.message ?? "Error";
         } else if (availability.status === "no-courts") {
           icon = Icon.XMarkCircle;
           iconTint = Color.Red;
@@ -551,11 +884,15 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
           if (isRangeStart && rangeEnd && rangeEnd !== time) {
             title = `${time} - ${rangeEnd}`;
           }
+
+          if ((rangeTimes ?? [time]).some((t) => watchedTimes.includes(t))) {
+            accessories = [{ icon: Icon.Eye, tooltip: "Watching" }];
+          }
         } else {
           // Available courts
           icon = Icon.CheckCircle;
           iconTint = Color.Green;
-          subtitle = `${availability.courts.length} available`;
+          subtitle = `${availability.courts.length} available for ${formatDuration(duration)}`;
 
           // Add court numbers as tags
           accessories = availability.courts.map((courtNum) => ({
@@ -579,6 +916,40 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
                     onAction={() => setSelectedTimeSlot({ slots: availability.slots, time })}
                   />
                 </ActionPanel>
+              ) : availability && availability.status === "no-courts" ? (
+                <ActionPanel>
+                  {rangeTimes && rangeTimes.length > 1 ? (
+                    <ActionPanel.Submenu title="Watch Slot" icon={Icon.Eye}>
+                      {rangeTimes.map((t) => (
+                        <Action key={t} title={t} onAction={() => handleWatch(t)} />
+                      ))}
+                    </ActionPanel.Submenu>
+                  ) : (
+                    <Action title="Watch This Slot" icon={Icon.Eye} onAction={() => handleWatch(time)} />
+                  )}
+                  <Action.Push
+                    title="Auto Book When Free"
+                    icon={Icon.Bolt}
+                    target={
+                      <AutoBookForm
+                        account={account}
+                        unitId={preferences.tennisCenter}
+                        date={selectedDate}
+                        times={rangeTimes ?? [time]}
+                        duration={duration}
+                        onSave={(t) => setWatchedTimes((prevTimes) => [...prevTimes, t])}
+                      />
+                    }
+                  />
+                </ActionPanel>
+              ) : error ? (
+                <ActionPanel>
+                  <ErrorRecoveryActions
+                    error={error}
+                    credentials={credentials}
+                    onRetry={() => retrySlot(time)}
+                  />
+                </ActionPanel>
               ) : undefined
             }
             detail={
@@ -586,6 +957,7 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
                 metadata={
                   <List.Item.Detail.Metadata>
                     <List.Item.Detail.Metadata.Label title="Time Slot" text={time} />
+                    <List.Item.Detail.Metadata.Label title="Duration" text={formatDuration(duration)} />
                     <List.Item.Detail.Metadata.Separator />
 
                     {availability && availability.status === "available" && availability.courts.length > 0 && (
@@ -622,19 +994,380 @@ function CourtsForDate({ selectedDate }: { selectedDate: Date }) {
   );
 }
 
+interface CenterSlotResult {
+  unitId: string;
+  time: string;
+  availability: CourtAvailability | null;
+  error?: ApiError; // Why availability could not be checked
+  isLoading: boolean;
+}
+
+type CenterMode = "nearby" | "all" | "selected";
+
+const SELECTED_CENTERS_KEY = "itec_compare_centers";
+
+async function loadSelectedCenters(): Promise<string[]> {
+  const stored = await LocalStorage.getItem<string>(SELECTED_CENTERS_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    return [];
+  }
+}
+
+function CenterSelectionForm({
+  initialCenters,
+  onSave,
+}: {
+  initialCenters: string[];
+  onSave: (ids: string[]) => void;
+}) {
+  const { pop } = useNavigation();
+
+  async function handleSubmit(values: { centers: string[] }) {
+    await LocalStorage.setItem(SELECTED_CENTERS_KEY, JSON.stringify(values.centers));
+    onSave(values.centers);
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle="Choose Centers"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Selection" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TagPicker id="centers" title="Centers" defaultValue={initialCenters}>
+        {TENNIS_CENTERS.map((center) => (
+          <Form.TagPicker.Item key={center.id} value={center.id} title={`${center.nameEn} (${center.name})`} />
+        ))}
+      </Form.TagPicker>
+    </Form>
+  );
+}
+
+function MultiCenterCourtsForDate({
+  selectedDate,
+  duration,
+  account,
+}: {
+  selectedDate: Date;
+  duration: Duration;
+  account: Account;
+}) {
+  const preferences = getPreferenceValues<Preferences>();
+  const [mode, setMode] = useState<CenterMode>("nearby");
+  const [selectedCenters, setSelectedCenters] = useState<string[]>([]);
+  const [results, setResults] = useState<CenterSlotResult[]>([]);
+  const [centerErrors, setCenterErrors] = useState<Map<string, ApiError>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selectedTimeSlot, setSelectedTimeSlot] = useState<{ slots: CourtSlot[]; time: string; unitId: string } | null>(
+    null
+  );
+  const credentials = toCredentials(account);
+
+  useEffect(() => {
+    loadSelectedCenters().then(setSelectedCenters);
+  }, []);
+
+  const unitIds =
+    mode === "all"
+      ? TENNIS_CENTERS.map((center) => center.id)
+      : mode === "selected"
+        ? selectedCenters
+        : getNearbyCenterIds(preferences.tennisCenter);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    async function fetchCenters() {
+      setResults([]);
+      setCenterErrors(new Map());
+      setIsLoading(true);
+
+      try {
+        await showToast({
+          style: Toast.Style.Animated,
+          title: "Checking centers",
+          message: `Scanning ${unitIds.length} center${unitIds.length === 1 ? "" : "s"}...`,
+        });
+
+        await scanCentersDay(
+          unitIds,
+          selectedDate,
+          duration,
+          credentials,
+          {
+            isCancelled: () => isCancelled,
+            onSlots: (unitId, times) => {
+              if (isCancelled) return;
+              setResults((prevResults) => [
+                ...prevResults,
+                ...times.map((time) => ({ unitId, time, availability: null, isLoading: true })),
+              ]);
+            },
+            onResult: ({ unitId, time, availability, error }) => {
+              if (isCancelled) return;
+              setResults((prevResults) =>
+                prevResults.map((r) =>
+                  r.unitId === unitId && r.time === time ? { ...r, availability, error, isLoading: false } : r
+                )
+              );
+            },
+            onCenterError: (unitId, error) => {
+              if (isCancelled) return;
+              setCenterErrors((prevErrors) => new Map(prevErrors).set(unitId, error));
+            },
+          }
+        );
+
+        if (!isCancelled) {
+          await showToast({ style: Toast.Style.Success, title: "Centers checked" });
+        }
+      } catch (error) {
+        if (!isCancelled) {
+          console.error("Error fetching centers:", error);
+          showToast({
+            style: Toast.Style.Failure,
+            title: "Failed to check centers",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    fetchCenters();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [selectedDate, duration, unitIds.join(","), reloadKey]);
+
+  const retryCenterSlot = async (unitId: string, time: string) => {
+    const updateSlot = (update: Partial<CenterSlotResult>) =>
+      setResults((prevResults) =>
+        prevResults.map((r) => (r.unitId === unitId && r.time === time ? { ...r, ...update } : r))
+      );
+
+    updateSlot({ isLoading: true, error: undefined });
+
+    try {
+      const availability = await searchCourts({ unitId, date: selectedDate, startHour: time, duration }, credentials);
+      updateSlot({ availability, isLoading: false });
+    } catch (error) {
+      updateSlot({ availability: null, error: toApiError(error), isLoading: false });
+    }
+  };
+
+  if (selectedTimeSlot) {
+    return (
+      <CourtsList
+        slots={selectedTimeSlot.slots}
+        time={selectedTimeSlot.time}
+        date={selectedDate}
+        unitId={selectedTimeSlot.unitId}
+        duration={duration}
+        account={account}
+        onBack={() => setSelectedTimeSlot(null)}
+      />
+    );
+  }
+
+  // Group results by time, sorted chronologically
+  const times = [...new Set(results.map((r) => r.time))].sort();
+
+  const chooseCentersAction = (
+    <Action.Push
+      title="Choose Centers"
+      icon={Icon.Pin}
+      shortcut={{ modifiers: ["cmd"], key: "e" }}
+      target={
+        <CenterSelectionForm
+          initialCenters={selectedCenters}
+          onSave={(ids) => {
+            setSelectedCenters(ids);
+            setMode("selected");
+          }}
+        />
+      }
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={withAccountName(`${formatDateDisplay(selectedDate)} - ${formatDuration(duration)}`, account)}
+      searchBarPlaceholder="Filter by center or time..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Centers" value={mode} onChange={(value) => setMode(value as CenterMode)}>
+          <List.Dropdown.Item title={`Near ${getCenterName(preferences.tennisCenter)}`} value="nearby" />
+          <List.Dropdown.Item title="All Centers" value="all" />
+          <List.Dropdown.Item title="My Selection" value="selected" />
+        </List.Dropdown>
+      }
+    >
+      {mode === "selected" && selectedCenters.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.Pin}
+          title="No Centers Selected"
+          description="Choose the centers you want to compare."
+          actions={<ActionPanel>{chooseCentersAction}</ActionPanel>}
+        />
+      ) : (
+        <>
+          {centerErrors.size > 0 && (
+            <List.Section title="Failed Centers">
+              {[...centerErrors].map(([unitId, error]) => (
+                <List.Item
+                  key={unitId}
+                  icon={{ source: Icon.ExclamationMark, tintColor: Color.Orange }}
+                  title={getCenterName(unitId)}
+                  subtitle={error.message}
+                  actions={
+                    <ActionPanel>
+                      <ErrorRecoveryActions
+                        error={error}
+                        credentials={credentials}
+                        onRetry={() => setReloadKey((key) => key + 1)}
+                      />
+                      {chooseCentersAction}
+                    </ActionPanel>
+                  }
+                />
+              ))}
+            </List.Section>
+          )}
+          {times.map((time) => (
+            <List.Section key={time} title={time}>
+              {results
+                .filter((r) => r.time === time)
+                .map((result) => {
+                  const { unitId, availability, error, isLoading } = result;
+                  const centerName = getCenterName(unitId);
+
+                  let icon: Icon;
+                  let iconTint: Color;
+                  let subtitle: string;
+                  let accessories: List.Item.Accessory[] = [];
+
+                  if (isLoading) {
+                    icon = Icon.Circle;
+                    iconTint = Color.SecondaryText;
+                    subtitle = "Loading...";
+                  } else if (!availability) {
+                    icon = Icon.ExclamationMark;
+                    iconTint = Color.Orange;
+                    subtitle = error?.message ?? "Error";
+                  } else if (availability.status === "no-courts") {
+                    icon = Icon.XMarkCircle;
+                    iconTint = Color.Red;
+                    subtitle = "No courts available";
+                  } else {
+                    icon = Icon.CheckCircle;
+                    iconTint = Color.Green;
+                    subtitle = `${availability.courts.length} available for ${formatDuration(duration)}`;
+                    accessories = availability.courts.map((courtNum) => ({
+                      tag: { value: String(courtNum), color: Color.Green },
+                    }));
+                  }
+
+                  return (
+                    <List.Item
+                      key={`${unitId}_${time}`}
+                      icon={{ source: icon, tintColor: iconTint }}
+                      title={centerName}
+                      subtitle={subtitle}
+                      keywords={[time, getCenterById(unitId)?.name ?? ""]}
+                      accessories={accessories}
+                      actions={
+                        <ActionPanel>
+                          {availability && availability.status === "available" && availability.slots.length > 0 && (
+                            <Action
+                              title="View Available Courts"
+                              icon={Icon.List}
+                              onAction={() => setSelectedTimeSlot({ slots: availability.slots, time, unitId })}
+                            />
+                          )}
+                          {availability && availability.status === "no-courts" && (
+                            <>
+                              <Action
+                                title="Watch This Slot"
+                                icon={Icon.Eye}
+                                onAction={() => watchSlot(account, unitId, selectedDate, time, duration)}
+                              />
+                              <Action.Push
+                                title="Auto Book When Free"
+                                icon={Icon.Bolt}
+                                target={
+                                  <AutoBookForm
+                                    account={account}
+                                    unitId={unitId}
+                                    date={selectedDate}
+                                    times={[time]}
+                                    duration={duration}
+                                  />
+                                }
+                              />
+                            </>
+                          )}
+                          {error && (
+                            <ErrorRecoveryActions
+                              error={error}
+                              credentials={credentials}
+                              onRetry={() => retryCenterSlot(unitId, time)}
+                            />
+                          )}
+                          {chooseCentersAction}
+                        </ActionPanel>
+                      }
+                    />
+                  );
+                })}
+            </List.Section>
+          ))}
+        </>
+      )}
+    </List>
+  );
+}
+
 export default function Command() {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [duration, setDuration] = useState<Duration>(1);
+  const { account } = useActiveAccount();
 
-  if (selectedDate) {
-    return <CourtsForDate selectedDate={selectedDate} />;
+  if (selectedDate && account) {
+    return <CourtsForDate selectedDate={selectedDate} duration={duration} account={account} />;
   }
 
-  // Generate dates for the next 14 days
+  // Generate dates for the booking window
   const today = getToday();
-  const dates = getNextDays(today, 14);
+  const dates = getNextDays(today, BOOKING_WINDOW_DAYS);
 
   return (
-    <List searchBarPlaceholder="Choose a date...">
+    <List
+      isLoading={!account}
+      navigationTitle={withAccountName("Check Availability", account)}
+      searchBarPlaceholder="Choose a date..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Duration" storeValue onChange={(value) => setDuration(Number(value) as Duration)}>
+          {DURATIONS.map((d) => (
+            <List.Dropdown.Item key={d} title={formatDuration(d)} value={String(d)} />
+          ))}
+        </List.Dropdown>
+      }
+    >
       {dates.map((date, index) => {
         const isToday = index === 0;
         const isTomorrow = index === 1;
@@ -654,6 +1387,14 @@ export default function Command() {
             actions={
               <ActionPanel>
                 <Action title="Check Availability" onAction={() => setSelectedDate(date)} />
+                {account && (
+                  <Action.Push
+                    title="Compare Centers"
+                    icon={Icon.Globe}
+                    shortcut={{ modifiers: ["cmd"], key: "enter" }}
+                    target={<MultiCenterCourtsForDate selectedDate={date} duration={duration} account={account} />}
+                  />
+                )}
               </ActionPanel>
             }
           />
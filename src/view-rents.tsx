@@ -1,46 +1,391 @@
-import { List, getPreferenceValues, showToast, Toast, Icon, Color, Action, ActionPanel, confirmAlert } from "@raycast/api";
+import {
+  List,
+  showToast,
+  Toast,
+  Icon,
+  Color,
+  Action,
+  ActionPanel,
+  confirmAlert,
+  open,
+  useNavigation,
+} from "@raycast/api";
 import { useState, useEffect } from "react";
-import { fetchMyRents, cancelRent } from "./services/api";
+import { fetchMyRents } from "./services/api";
+import { ApiError, toApiError } from "./services/errors";
+import { ErrorRecoveryActions } from "./components/error-actions";
+import { withAccountName } from "./services/accounts";
+import { useActiveAccount } from "./hooks/use-active-account";
+import { exportRentalsCalendar } from "./services/calendar";
+import { syncRentalHistory } from "./services/history";
+import {
+  CancellationResult,
+  BulkCancellationItem,
+  cancelRental,
+  cancelRentals,
+  formatCancellationDeadline,
+  getCancellationBlocker,
+  getCancellationDeadline,
+  isCancellationClosingSoon,
+} from "./services/cancellation";
+import { AuthCredentials } from "./services/auth";
+import { pickPreferredSlot } from "./services/booking";
+import { SlotScanResult } from "./services/scan";
+import { ReschedulableRental, findRescheduleOptions, isReschedulable, rescheduleRental } from "./services/reschedule";
+import { CANCELLATION_NOTICE_HOURS } from "./constants";
 import { parseMyRents, Rental } from "./utils/parser";
-import { isFutureDate, getWeekday } from "./utils/date";
+import { getCenterName } from "./utils/centers";
+import {
+  isFutureDate,
+  getWeekday,
+  combineDateAndTime,
+  formatDate,
+  formatDateDisplay,
+  formatDuration,
+  formatTimeUntil,
+  getTimeRangeHours,
+  getWeekStart,
+  parseDate,
+} from "./utils/date";
 
-interface Preferences {
-  email: string;
-  userId: string;
+type Grouping = "week" | "center";
+
+const CANCELLATION_TITLES: Record<CancellationResult["status"], string> = {
+  cancelled: "Rental cancelled",
+  refused: "The site refused the cancellation",
+  "still-booked": "Rental still booked",
+  unverified: "Cancellation not confirmed",
+};
+
+// Dropdown filter: "all", "center:<center key>" or "court:<court label>"
+type RentalFilter = "all" | `center:${string}` | `court:${string}`;
+
+function getRentalKey(rental: Rental): string {
+  return `${rental.date}_${rental.time}_${rental.court}`;
+}
+
+function getRentalStart(rental: Rental): Date {
+  return combineDateAndTime(rental.dateObj, rental.time.split("-")[0]);
+}
+
+/**
+ * Center of a rental; the Hebrew name (or the whole court label) when it is not a known center
+ */
+function getCenterKey(rental: Rental): string {
+  return rental.unitId ?? rental.centerName ?? rental.court;
+}
+
+function getCenterLabel(rental: Rental): string {
+  return rental.unitId ? getCenterName(rental.unitId) : (rental.centerName ?? rental.court);
+}
+
+function getCourtLabel(rental: Rental): string {
+  return rental.courtNumber ? `Court ${rental.courtNumber}` : rental.court;
+}
+
+function getWeekTitle(rental: Rental): string {
+  const weekStart = getWeekStart(rental.dateObj);
+  const weeksAway = Math.round((weekStart.getTime() - getWeekStart(new Date()).getTime()) / (7 * 24 * 60 * 60 * 1000));
+  if (weeksAway <= 0) {
+    return "This Week";
+  }
+  return weeksAway === 1 ? "Next Week" : `Week of ${formatDate(weekStart)}`;
+}
+
+function matchesFilter(rental: Rental, filter: RentalFilter): boolean {
+  if (filter.startsWith("center:")) {
+    return getCenterKey(rental) === filter.slice("center:".length);
+  }
+  if (filter.startsWith("court:")) {
+    return rental.court === filter.slice("court:".length);
+  }
+  return true;
+}
+
+/**
+ * Split rentals (already sorted by start) into sections, in order of their earliest rental
+ */
+function groupRentals(rentals: Rental[], grouping: Grouping): Array<{ title: string; rentals: Rental[] }> {
+  const sections = new Map<string, Rental[]>();
+  for (const rental of rentals) {
+    const title = grouping === "week" ? getWeekTitle(rental) : getCenterLabel(rental);
+    sections.set(title, [...(sections.get(title) ?? []), rental]);
+  }
+  return [...sections].map(([title, rentals]) => ({ title, rentals }));
+}
+
+const BULK_CANCELLATION_ICONS: Record<BulkCancellationItem["status"], { source: Icon; tintColor: Color }> = {
+  cancelled: { source: Icon.CheckCircle, tintColor: Color.Green },
+  refused: { source: Icon.XMarkCircle, tintColor: Color.Red },
+  "still-booked": { source: Icon.ExclamationMark, tintColor: Color.Red },
+  unverified: { source: Icon.QuestionMarkCircle, tintColor: Color.Orange },
+  failed: { source: Icon.XMarkCircle, tintColor: Color.Red },
+  skipped: { source: Icon.Lock, tintColor: Color.SecondaryText },
+};
+
+const BULK_CANCELLATION_LABELS: Record<BulkCancellationItem["status"], string> = {
+  cancelled: "Cancelled",
+  refused: "Refused",
+  "still-booked": "Still booked",
+  unverified: "Not confirmed",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+/**
+ * Per-rental results of a bulk cancellation
+ */
+function BulkCancellationSummary({ items }: { items: BulkCancellationItem[] }) {
+  const cancelled = items.filter((item) => item.status === "cancelled").length;
+
+  return (
+    <List navigationTitle={`Cancelled ${cancelled} of ${items.length}`}>
+      {items.map((item) => (
+        <List.Item
+          key={getRentalKey(item.rental)}
+          icon={BULK_CANCELLATION_ICONS[item.status]}
+          title={`${getWeekday(item.rental.dateObj)}, ${item.rental.date}`}
+          subtitle={item.rental.time}
+          accessories={[
+            { text: item.message },
+            {
+              tag: {
+                value: BULK_CANCELLATION_LABELS[item.status],
+                color: BULK_CANCELLATION_ICONS[item.status].tintColor,
+              },
+            },
+          ]}
+        />
+      ))}
+    </List>
+  );
+}
+
+/**
+ * Free slots to move a rental to, at its center on the same and nearby days
+ */
+function RescheduleList({
+  rental,
+  credentials,
+  onRescheduled,
+}: {
+  rental: ReschedulableRental;
+  credentials: AuthCredentials;
+  onRescheduled: () => void;
+}) {
+  const { pop } = useNavigation();
+  const [options, setOptions] = useState<SlotScanResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRescheduling, setIsRescheduling] = useState(false);
+  const duration = getTimeRangeHours(rental.time);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    findRescheduleOptions(rental, credentials, {
+      isCancelled: () => isCancelled,
+      onResult: (result) => {
+        if (!isCancelled && result.availability?.status === "available") {
+          setOptions((current) => [...current, result]);
+        }
+      },
+      onCenterError: (_, error) => {
+        showToast({ style: Toast.Style.Failure, title: "Failed to load some days", message: error.message });
+      },
+    }).finally(() => {
+      if (!isCancelled) {
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  async function handleReschedule(option: SlotScanResult) {
+    const slot = pickPreferredSlot(
+      option.availability?.slots ?? [],
+      rental.courtNumber ? [rental.courtNumber] : [],
+      true
+    );
+    if (!slot || isRescheduling) {
+      return;
+    }
+
+    const target = `${formatDateDisplay(option.date)} ${option.time}, Court ${slot.courtNumber}`;
+    const confirmed = await confirmAlert({
+      title: "Reschedule Rental",
+      message: `Move your rental on ${rental.date} at ${rental.time} to ${target}? The new slot is booked before the old rental is cancelled.`,
+      primaryAction: { title: "Reschedule" },
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    setIsRescheduling(true);
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Rescheduling",
+      message: `Booking ${target}...`,
+    });
+
+    const result = await rescheduleRental(
+      rental,
+      {
+        unitId: rental.unitId,
+        courtId: slot.courtId,
+        courtNumber: slot.courtNumber,
+        date: option.date,
+        startHour: option.time,
+        duration,
+      },
+      credentials
+    );
+
+    if (result.status === "not-booked") {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Could not book the new slot";
+      toast.message = `${result.booking.message}. Your rental on ${rental.date} is unchanged`;
+      setIsRescheduling(false);
+      return;
+    }
+
+    if (result.status === "unverified") {
+      toast.style = Toast.Style.Failure;
+      toast.title = "New slot may be booked, check My Rentals";
+      toast.message = `${result.booking.message}. Your rental on ${rental.date} was kept, so you may now hold both`;
+      onRescheduled();
+      pop();
+      return;
+    }
+
+    if (result.status === "cancel-failed") {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Booked, but the old rental was not cancelled";
+      toast.message = `You may now hold both ${target} and ${rental.date} ${rental.time}. ${result.message}`;
+    } else {
+      toast.style = Toast.Style.Success;
+      toast.title = "Rental rescheduled";
+      toast.message = `Moved to ${target}`;
+    }
+
+    onRescheduled();
+    pop();
+  }
+
+  // One section per day, in date order
+  const days = [...new Set(options.map((option) => formatDate(option.date)))].sort(
+    (a, b) => parseDate(a).getTime() - parseDate(b).getTime()
+  );
+
+  return (
+    <List
+      isLoading={isLoading || isRescheduling}
+      navigationTitle={`Reschedule ${rental.date} ${rental.time}`}
+      searchBarPlaceholder="Filter by time..."
+    >
+      {options.length === 0 && !isLoading ? (
+        <List.EmptyView
+          icon={Icon.Calendar}
+          title="No Free Slots"
+          description={`No ${formatDuration(duration)} slots are free at ${getCenterLabel(rental)} around ${rental.date}.`}
+        />
+      ) : (
+        days.map((day) => (
+          <List.Section key={day} title={formatDateDisplay(parseDate(day))}>
+            {options
+              .filter((option) => formatDate(option.date) === day)
+              .sort((a, b) => a.time.localeCompare(b.time))
+              .map((option) => {
+                const courts = option.availability?.courts ?? [];
+                const sameCourt = rental.courtNumber !== undefined && courts.includes(rental.courtNumber);
+
+                return (
+                  <List.Item
+                    key={`${day}_${option.time}`}
+                    icon={{ source: Icon.Clock, tintColor: Color.Green }}
+                    title={option.time}
+                    subtitle={`${courts.length} court${courts.length === 1 ? "" : "s"} free`}
+                    accessories={sameCourt ? [{ tag: { value: getCourtLabel(rental), color: Color.Blue } }] : []}
+                    actions={
+                      <ActionPanel>
+                        <Action
+                          title="Reschedule Here"
+                          icon={Icon.ArrowClockwise}
+                          onAction={() => handleReschedule(option)}
+                        />
+                      </ActionPanel>
+                    }
+                  />
+                );
+              })}
+          </List.Section>
+        ))
+      )}
+    </List>
+  );
 }
 
 export default function Command() {
-  const preferences = getPreferenceValues<Preferences>();
+  const { account, credentials } = useActiveAccount();
+  const { push } = useNavigation();
   const [rentals, setRentals] = useState<Rental[]>([]);
+  const [grouping, setGrouping] = useState<Grouping>("week");
+  const [filter, setFilter] = useState<RentalFilter>("all");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
 
   async function loadRentals() {
-    try {
-      const html = await fetchMyRents({
-        email: preferences.email,
-        userId: preferences.userId,
-      });
+    if (!credentials) {
+      return;
+    }
 
-      if (!html) {
-        throw new Error("Failed to fetch rentals");
-      }
+    setIsLoading(true);
+    setLoadError(null);
+
+    try {
+      const html = await fetchMyRents(credentials);
 
       // Parse all rentals
       const allRentals = parseMyRents(html);
 
+      // Record them before the site drops past rentals
+      if (account) {
+        await syncRentalHistory(account, allRentals);
+      }
+
       // Filter to show only future rentals
       const futureRentals = allRentals.filter((rental) => isFutureDate(rental.dateObj));
 
-      // Sort by date (earliest first)
-      futureRentals.sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
+      // Sort by start (earliest first)
+      futureRentals.sort((a, b) => getRentalStart(a).getTime() - getRentalStart(b).getTime());
 
       setRentals(futureRentals);
+      setSelected(new Set());
+
+      const closingSoon = futureRentals.filter((rental) => isCancellationClosingSoon(rental));
+      if (closingSoon.length > 0) {
+        const deadline = formatCancellationDeadline(getCancellationDeadline(closingSoon[0]));
+        // A notice, not an error: Raycast has no warning style, and the default one reads as information
+        showToast({
+          title:
+            closingSoon.length === 1
+              ? "Cancellation window closing"
+              : `${closingSoon.length} cancellation windows closing`,
+          message: `${closingSoon[0].date} ${closingSoon[0].time} can likely only be cancelled until ~${deadline}`,
+        });
+      }
     } catch (error) {
       console.error("Error loading rentals:", error);
+      const apiError = toApiError(error);
+      setLoadError(apiError);
       showToast({
         style: Toast.Style.Failure,
         title: "Failed to load rentals",
-        message: error instanceof Error ? error.message : "Unknown error",
+        message: apiError.message,
       });
     } finally {
       setIsLoading(false);
@@ -49,14 +394,18 @@ export default function Command() {
 
   useEffect(() => {
     loadRentals();
-  }, [preferences.email, preferences.userId]);
+  }, [account?.id]);
 
   async function handleCancelRental(rental: Rental) {
+    if (!credentials) {
+      return;
+    }
+
     if (!rental.allocationId) {
       await showToast({
         style: Toast.Style.Failure,
         title: "Cannot cancel",
-        message: "This rental cannot be cancelled (too close to start time)",
+        message: getCancellationBlocker(rental),
       });
       return;
     }
@@ -76,74 +425,307 @@ export default function Command() {
     setIsLoading(true);
 
     try {
-      const success = await cancelRent(rental.allocationId, {
-        email: preferences.email,
-        userId: preferences.userId,
-      });
+      const result = await cancelRental({ ...rental, allocationId: rental.allocationId }, credentials);
 
-      if (success) {
-        await showToast({
-          style: Toast.Style.Success,
-          title: "Rental cancelled",
-          message: "Your rental has been successfully cancelled",
-        });
+      await showToast({
+        style: result.status === "cancelled" ? Toast.Style.Success : Toast.Style.Failure,
+        title: CANCELLATION_TITLES[result.status],
+        message: result.message,
+      });
 
-        // Refresh the list to confirm cancellation
-        await loadRentals();
-      } else {
-        throw new Error("Failed to cancel rental");
-      }
+      await loadRentals();
     } catch (error) {
       console.error("Error canceling rental:", error);
       await showToast({
         style: Toast.Style.Failure,
         title: "Cancellation failed",
-        message: error instanceof Error ? error.message : "Unknown error",
+        message: toApiError(error).message,
       });
       setIsLoading(false);
     }
   }
 
+  function toggleSelected(rental: Rental) {
+    const next = new Set(selected);
+    if (!next.delete(getRentalKey(rental))) {
+      next.add(getRentalKey(rental));
+    }
+    setSelected(next);
+  }
+
+  /**
+   * Cancel several rentals after a single confirmation, then show what happened to each
+   */
+  async function handleCancelRentals(scope: string, targets: Rental[]) {
+    if (!credentials) {
+      return;
+    }
+
+    const cancellable = targets.filter((rental) => rental.allocationId);
+    const skipped = targets.length - cancellable.length;
+
+    if (cancellable.length === 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Nothing to cancel",
+        message: `None of the rentals ${scope} can be cancelled`,
+      });
+      return;
+    }
+
+    const confirmed = await confirmAlert({
+      title: `Cancel ${cancellable.length} Rental${cancellable.length === 1 ? "" : "s"}`,
+      message: [
+        ...cancellable.map(
+          (rental) => `${getWeekday(rental.dateObj)} ${rental.date} ${rental.time}, ${getCourtLabel(rental)}`
+        ),
+        ...(skipped > 0
+          ? [`${skipped} more ${skipped === 1 ? "rental" : "rentals"} cannot be cancelled and will be skipped.`]
+          : []),
+      ].join("\n"),
+      primaryAction: {
+        title: "Cancel Rentals",
+      },
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    setIsLoading(true);
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Cancelling rentals ${scope}` });
+
+    const items = await cancelRentals(targets, credentials, {
+      onProgress: (done, total) => {
+        toast.message = `${done} of ${total}`;
+      },
+    });
+
+    const cancelled = items.filter((item) => item.status === "cancelled").length;
+    toast.style = cancelled === cancellable.length ? Toast.Style.Success : Toast.Style.Failure;
+    toast.title = `Cancelled ${cancelled} of ${cancellable.length}`;
+    toast.message = skipped > 0 ? `${skipped} skipped` : undefined;
+
+    push(<BulkCancellationSummary items={items} />);
+    await loadRentals();
+  }
+
+  async function handleExportToCalendar() {
+    if (!account) {
+      return;
+    }
+
+    try {
+      await open(await exportRentalsCalendar(rentals, account));
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Exported to Calendar",
+        message: `${rentals.length} rental${rentals.length === 1 ? "" : "s"}`,
+      });
+    } catch (error) {
+      console.error("Error exporting rentals:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Export failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  const centers = [...new Map(rentals.map((rental) => [getCenterKey(rental), getCenterLabel(rental)]))];
+  const courts = [...new Map(rentals.map((rental) => [rental.court, rental]))].map(([court, rental]) => ({
+    court,
+    title: `${getCenterLabel(rental)} · ${getCourtLabel(rental)}`,
+  }));
+  const visibleRentals = rentals.filter((rental) => matchesFilter(rental, filter));
+  const selectedRentals = rentals.filter((rental) => selected.has(getRentalKey(rental)));
+
   return (
-    <List isLoading={isLoading} searchBarPlaceholder="Search your upcoming rentals...">
-      {rentals.length === 0 && !isLoading ? (
+    <List
+      isLoading={isLoading}
+      navigationTitle={withAccountName("My Upcoming Rentals", account)}
+      searchBarPlaceholder="Search your upcoming rentals..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Filter" value={filter} onChange={(value) => setFilter(value as RentalFilter)}>
+          <List.Dropdown.Item title="All Rentals" value="all" />
+          <List.Dropdown.Section title="Centers">
+            {centers.map(([key, label]) => (
+              <List.Dropdown.Item key={key} title={label} value={`center:${key}`} />
+            ))}
+          </List.Dropdown.Section>
+          <List.Dropdown.Section title="Courts">
+            {courts.map(({ court, title }) => (
+              <List.Dropdown.Item key={court} title={title} value={`court:${court}`} />
+            ))}
+          </List.Dropdown.Section>
+        </List.Dropdown>
+      }
+    >
+      {loadError && credentials && !isLoading ? (
+        <List.EmptyView
+          icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+          title="Failed to Load Rentals"
+          description={loadError.message}
+          actions={
+            <ActionPanel>
+              <ErrorRecoveryActions error={loadError} credentials={credentials} onRetry={loadRentals} />
+            </ActionPanel>
+          }
+        />
+      ) : rentals.length === 0 && !isLoading ? (
         <List.EmptyView
           icon={Icon.Calendar}
           title="No Upcoming Rentals"
           description="You don't have any future court rentals scheduled."
         />
+      ) : visibleRentals.length === 0 && !isLoading ? (
+        <List.EmptyView
+          icon={Icon.Filter}
+          title="No Matching Rentals"
+          description="None of your upcoming rentals are at this center or court."
+          actions={
+            <ActionPanel>
+              <Action title="Show All Rentals" icon={Icon.List} onAction={() => setFilter("all")} />
+            </ActionPanel>
+          }
+        />
       ) : (
-        rentals.map((rental, index) => {
-          const weekday = getWeekday(rental.dateObj);
-          const title = `${weekday}, ${rental.date}`;
-
-          return (
-            <List.Item
-              key={index}
-              icon={{ source: Icon.Calendar, tintColor: Color.Green }}
-              title={title}
-              subtitle={rental.time}
-              accessories={[
-                { tag: { value: rental.court, color: Color.Blue } },
-                rental.allocationId
-                  ? { icon: { source: Icon.XMarkCircle, tintColor: Color.Red }, tooltip: "Can be cancelled" }
-                  : { icon: { source: Icon.Lock, tintColor: Color.SecondaryText }, tooltip: "Cannot be cancelled" },
-              ]}
-              actions={
-                rental.allocationId ? (
-                  <ActionPanel>
-                    <Action
-                      title="Cancel Rental"
-                      icon={Icon.Trash}
-                      style={Action.Style.Destructive}
-                      onAction={() => handleCancelRental(rental)}
-                    />
-                  </ActionPanel>
-                ) : undefined
-              }
-            />
-          );
-        })
+        groupRentals(visibleRentals, grouping).map((section) => (
+          <List.Section key={section.title} title={section.title} subtitle={String(section.rentals.length)}>
+            {section.rentals.map((rental) => {
+              const weekday = getWeekday(rental.dateObj);
+              const title = `${weekday}, ${rental.date}`;
+              const start = getRentalStart(rental);
+
+              return (
+                <List.Item
+                  key={getRentalKey(rental)}
+                  icon={{ source: Icon.Calendar, tintColor: Color.Green }}
+                  title={title}
+                  subtitle={rental.time}
+                  keywords={[rental.court, getCenterLabel(rental), getCourtLabel(rental)]}
+                  accessories={[
+                    ...(selected.has(getRentalKey(rental))
+                      ? [{ icon: { source: Icon.CheckCircle, tintColor: Color.Blue }, tooltip: "Selected" }]
+                      : []),
+                    { text: formatDuration(getTimeRangeHours(rental.time)) },
+                    { text: formatTimeUntil(start), tooltip: `Starts ${start.toLocaleString()}` },
+                    {
+                      tag: {
+                        value:
+                          grouping === "center"
+                            ? getCourtLabel(rental)
+                            : `${getCourtLabel(rental)} · ${getCenterLabel(rental)}`,
+                        color: Color.Blue,
+                      },
+                      tooltip: rental.court,
+                    },
+                    rental.allocationId
+                      ? {
+                          icon: {
+                            source: isCancellationClosingSoon(rental) ? Icon.Warning : Icon.XMarkCircle,
+                            tintColor: isCancellationClosingSoon(rental) ? Color.Orange : Color.Red,
+                          },
+                          text: `until ~${formatCancellationDeadline(getCancellationDeadline(rental))}`,
+                          tooltip: `${
+                            isCancellationClosingSoon(rental)
+                              ? "The cancellation window closes soon"
+                              : "Can be cancelled"
+                          }. Estimated deadline, assuming ${CANCELLATION_NOTICE_HOURS} hours of notice`,
+                        }
+                      : {
+                          icon: { source: Icon.Lock, tintColor: Color.SecondaryText },
+                          tooltip: getCancellationBlocker(rental),
+                        },
+                  ]}
+                  actions={
+                    <ActionPanel>
+                      {rental.allocationId && (
+                        <Action
+                          title="Cancel Rental"
+                          icon={Icon.Trash}
+                          style={Action.Style.Destructive}
+                          onAction={() => handleCancelRental(rental)}
+                        />
+                      )}
+                      <Action
+                        title={selected.has(getRentalKey(rental)) ? "Deselect Rental" : "Select Rental"}
+                        icon={Icon.CheckCircle}
+                        shortcut={{ modifiers: ["cmd"], key: "s" }}
+                        onAction={() => toggleSelected(rental)}
+                      />
+                      {selectedRentals.length > 0 && (
+                        <Action
+                          title={`Cancel ${selectedRentals.length} Selected`}
+                          icon={Icon.Trash}
+                          style={Action.Style.Destructive}
+                          shortcut={{ modifiers: ["cmd", "shift"], key: "x" }}
+                          onAction={() => handleCancelRentals("selected", selectedRentals)}
+                        />
+                      )}
+                      <ActionPanel.Submenu title="Cancel Several" icon={Icon.Trash}>
+                        <Action
+                          title={`All on ${rental.date}`}
+                          onAction={() =>
+                            handleCancelRentals(
+                              `on ${rental.date}`,
+                              rentals.filter((r) => r.date === rental.date)
+                            )
+                          }
+                        />
+                        <Action
+                          title="All This Week"
+                          onAction={() =>
+                            handleCancelRentals(
+                              `in the week of ${formatDate(getWeekStart(rental.dateObj))}`,
+                              rentals.filter(
+                                (r) => getWeekStart(r.dateObj).getTime() === getWeekStart(rental.dateObj).getTime()
+                              )
+                            )
+                          }
+                        />
+                        <Action
+                          title={`All at ${getCenterLabel(rental)}`}
+                          onAction={() =>
+                            handleCancelRentals(
+                              `at ${getCenterLabel(rental)}`,
+                              rentals.filter((r) => getCenterKey(r) === getCenterKey(rental))
+                            )
+                          }
+                        />
+                      </ActionPanel.Submenu>
+                      {selectedRentals.length > 0 && (
+                        <Action title="Clear Selection" icon={Icon.Circle} onAction={() => setSelected(new Set())} />
+                      )}
+                      {isReschedulable(rental) && credentials && (
+                        <Action.Push
+                          title="Reschedule"
+                          icon={Icon.ArrowClockwise}
+                          shortcut={{ modifiers: ["cmd"], key: "r" }}
+                          target={
+                            <RescheduleList rental={rental} credentials={credentials} onRescheduled={loadRentals} />
+                          }
+                        />
+                      )}
+                      <Action
+                        title={grouping === "week" ? "Group by Center" : "Group by Week"}
+                        icon={Icon.AppWindowGrid2x2}
+                        shortcut={{ modifiers: ["cmd"], key: "g" }}
+                        onAction={() => setGrouping(grouping === "week" ? "center" : "week")}
+                      />
+                      <Action
+                        title="Export to Calendar"
+                        icon={Icon.Calendar}
+                        shortcut={{ modifiers: ["cmd"], key: "e" }}
+                        onAction={handleExportToCalendar}
+                      />
+                    </ActionPanel>
+                  }
+                />
+              );
+            })}
+          </List.Section>
+        ))
       )}
     </List>
   );
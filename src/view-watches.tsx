@@ -0,0 +1,109 @@
+import { List, Icon, Color, Action, ActionPanel, launchCommand, LaunchType, showToast, Toast } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { pruneExpiredWatches, removeWatch, getWatchStart, SlotWatch } from "./services/watches";
+import { Account, DEFAULT_ACCOUNT_ID, getAccounts, withAccountName } from "./services/accounts";
+import { useActiveAccount } from "./hooks/use-active-account";
+import { getCenterName } from "./utils/centers";
+import { formatDuration, getWeekday } from "./utils/date";
+
+function getStatus(watch: SlotWatch): { icon: Icon; tint: Color; text: string } {
+  if (watch.outcome?.status === "booked") {
+    return { icon: Icon.CheckCircle, tint: Color.Green, text: `Booked court ${watch.outcome.courtNumber}` };
+  }
+  if (watch.outcome?.status === "unverified") {
+    return { icon: Icon.QuestionMarkCircle, tint: Color.Yellow, text: "Check your rentals" };
+  }
+  if (watch.outcome?.status === "expired") {
+    return { icon: Icon.Clock, tint: Color.SecondaryText, text: "Deadline passed" };
+  }
+  if (watch.autoBook) {
+    return { icon: Icon.Bolt, tint: Color.Orange, text: "Auto-book armed" };
+  }
+  return { icon: Icon.Eye, tint: Color.Blue, text: "Watching" };
+}
+
+export default function Command() {
+  const { account } = useActiveAccount();
+  const [watches, setWatches] = useState<SlotWatch[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  async function loadWatches() {
+    const active = await pruneExpiredWatches();
+    active.sort((a, b) => getWatchStart(a).getTime() - getWatchStart(b).getTime());
+    setWatches(active);
+    setAccounts(await getAccounts());
+    setIsLoading(false);
+  }
+
+  useEffect(() => {
+    loadWatches();
+  }, []);
+
+  async function handleRemove(watch: SlotWatch) {
+    await removeWatch(watch.id);
+    await loadWatches();
+    await showToast({ style: Toast.Style.Success, title: "Stopped watching", message: `${watch.date} ${watch.time}` });
+  }
+
+  async function handleCheckNow() {
+    // The check reports its result in a HUD; reload to pick up recorded outcomes
+    await launchCommand({ name: "watch-slots", type: LaunchType.UserInitiated });
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={withAccountName("Watched Slots", account)}
+      searchBarPlaceholder="Search watched slots..."
+    >
+      {watches.length === 0 && !isLoading ? (
+        <List.EmptyView
+          icon={Icon.Eye}
+          title="No Watched Slots"
+          description="Use “Watch This Slot” on a fully booked time in Check Availability."
+        />
+      ) : (
+        watches.map((watch) => {
+          const status = getStatus(watch);
+          const start = getWatchStart(watch);
+          const owner = accounts.find((a) => a.id === (watch.accountId ?? DEFAULT_ACCOUNT_ID));
+
+          return (
+            <List.Item
+              key={watch.id}
+              icon={{ source: status.icon, tintColor: status.tint }}
+              title={`${getWeekday(start)}, ${watch.date} ${watch.time}`}
+              subtitle={`${getCenterName(watch.unitId)} · ${formatDuration(watch.duration)}`}
+              accessories={[
+                ...(owner && owner.id !== account?.id ? [{ icon: Icon.Person, text: owner.name }] : []),
+                ...(watch.autoBook && watch.autoBook.preferredCourts.length > 0
+                  ? [{ text: `Prefers ${watch.autoBook.preferredCourts.join(", ")}` }]
+                  : []),
+                { tag: { value: status.text, color: status.tint }, tooltip: watch.outcome?.message },
+              ]}
+              actions={
+                <ActionPanel>
+                  <Action title="Check Now" icon={Icon.Play} onAction={handleCheckNow} />
+                  <Action
+                    title="Reload"
+                    icon={Icon.ArrowClockwise}
+                    shortcut={{ modifiers: ["cmd"], key: "r" }}
+                    onAction={loadWatches}
+                  />
+                  <Action
+                    title="Stop Watching"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => handleRemove(watch)}
+                  />
+                </ActionPanel>
+              }
+            />
+          );
+        })
+      )}
+    </List>
+  );
+}
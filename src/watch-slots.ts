@@ -0,0 +1,156 @@
+import { showHUD, environment, LaunchType } from "@raycast/api";
+import { searchCourts } from "./services/api";
+import { AuthCredentials } from "./services/auth";
+import { getAccountLabel, resolveAccount, toCredentials } from "./services/accounts";
+import { bookCourt, mayHaveBooked, pickPreferredSlot } from "./services/booking";
+import { pruneExpiredWatches, removeWatch, recordWatchOutcome, SlotWatch, WatchOutcome } from "./services/watches";
+import { DURATIONS } from "./constants";
+import { getCenterName } from "./utils/centers";
+import { parseDate } from "./utils/date";
+
+/**
+ * Try to book a watched slot according to its auto-book rule
+ * Durations are tried longest first, from the rule's maximum down to the watched duration
+ * Returns null when nothing could be booked yet: the site refused (e.g. someone else was faster) or the
+ * request failed before the order was sent, so the watch stays armed until its deadline
+ */
+async function tryAutoBook(
+  watch: SlotWatch,
+  credentials: AuthCredentials
+): Promise<Omit<WatchOutcome, "recordedAt"> | null> {
+  const rule = watch.autoBook;
+  if (!rule) {
+    return null;
+  }
+
+  const durations = DURATIONS.filter((d) => d >= watch.duration && d <= rule.maxDuration).sort((a, b) => b - a);
+
+  for (const duration of durations) {
+    let availability;
+    try {
+      availability = await searchCourts(
+        { unitId: watch.unitId, date: parseDate(watch.date), startHour: watch.time, duration },
+        credentials
+      );
+    } catch (error) {
+      console.error("Error checking watched slot:", error);
+      continue;
+    }
+
+    if (availability.status !== "available") {
+      continue;
+    }
+
+    const slot = pickPreferredSlot(availability.slots, rule.preferredCourts, rule.anyCourt);
+    if (!slot) {
+      continue;
+    }
+
+    const result = await bookCourt(
+      {
+        unitId: watch.unitId,
+        courtId: slot.courtId,
+        courtNumber: slot.courtNumber,
+        date: parseDate(watch.date),
+        startHour: watch.time,
+        duration,
+      },
+      credentials
+    );
+
+    if (result.success) {
+      return { status: "booked", message: result.message, courtNumber: slot.courtNumber, duration };
+    }
+
+    // Trying again could book a second court
+    if (mayHaveBooked(result)) {
+      return { status: "unverified", message: result.message, courtNumber: slot.courtNumber, duration };
+    }
+
+    console.error(`Auto-book failed at ${result.stage}, will retry:`, result.message);
+  }
+
+  return null;
+}
+
+/**
+ * Background check of watched slots, notifying (or booking) when a court frees up
+ */
+export default async function Command() {
+  const watches = await pruneExpiredWatches();
+  const messages: string[] = [];
+
+  for (const watch of watches) {
+    // Auto-book watches stay until the slot passes so their outcome can be reviewed
+    if (watch.outcome && watch.outcome.status !== "failed") {
+      continue;
+    }
+
+    const account = await resolveAccount(watch.accountId);
+    if (!account) {
+      // Never check or book on behalf of someone else
+      await removeWatch(watch.id);
+      messages.push(
+        `Stopped watching ${getCenterName(watch.unitId)} ${watch.date} ${watch.time}: its account was removed`
+      );
+      continue;
+    }
+
+    const credentials = toCredentials(account);
+    const label = getAccountLabel(`${getCenterName(watch.unitId)} ${watch.date} ${watch.time}`, account);
+
+    if (watch.autoBook) {
+      if (new Date(watch.autoBook.deadline) < new Date()) {
+        await recordWatchOutcome(watch.id, { status: "expired", message: "Deadline passed before a court freed up" });
+        continue;
+      }
+
+      const outcome = await tryAutoBook(watch, credentials);
+      if (outcome) {
+        await recordWatchOutcome(watch.id, outcome);
+        messages.push(
+          outcome.status === "booked"
+            ? `Booked court ${outcome.courtNumber} at ${label}`
+            : `Booking ${label} may have gone through, check your rentals: ${outcome.message}`
+        );
+      }
+    } else {
+      let availability;
+      try {
+        availability = await searchCourts(
+          {
+            unitId: watch.unitId,
+            date: parseDate(watch.date),
+            startHour: watch.time,
+            duration: watch.duration,
+          },
+          credentials
+        );
+      } catch (error) {
+        // Try again on the next run
+        console.error("Error checking watched slot:", error);
+        continue;
+      }
+
+      if (availability.status === "available") {
+        messages.push(
+          `Court available: ${label} (court${availability.courts.length > 1 ? "s" : ""} ${availability.courts.join(", ")})`
+        );
+
+        // Notify only once per watch
+        await removeWatch(watch.id);
+      }
+    }
+
+    // Small delay to be nice to the server
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  const pending = watches.filter((w) => !w.outcome).length;
+
+  if (messages.length > 0) {
+    await showHUD(`🎾 ${messages.join(" · ")}`);
+  } else if (environment.launchType === LaunchType.UserInitiated) {
+    await showHUD(pending > 0 ? `No courts freed up yet (${pending} watched)` : "You are not watching any slots");
+  }
+}
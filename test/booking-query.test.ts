@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BookingQuery, parseBookingQuery } from "../src/utils/booking-query";
+import { findCentersByName } from "../src/utils/centers";
+
+// Tuesday 20/10/2026, 18:00
+const now = new Date(2026, 9, 20, 18, 0);
+
+function parse(input: string): BookingQuery {
+  const result = parseBookingQuery(input, "2", now);
+  if (!result.ok) {
+    assert.fail(result.error);
+  }
+  return result.query;
+}
+
+function parseError(input: string): string {
+  const result = parseBookingQuery(input, "2", now);
+  assert.equal(result.ok, false);
+  return result.ok ? "" : result.error;
+}
+
+describe("parseBookingQuery", () => {
+  it("reads a day, a time, a duration and a center", () => {
+    assert.deepEqual(parse("tomorrow 20:00 2h ramat hasharon"), {
+      unitId: "2",
+      date: new Date(2026, 9, 21),
+      startHour: "20:00",
+      duration: 2,
+    });
+  });
+
+  it("defaults to today, one hour and the preferred center", () => {
+    assert.deepEqual(parse("19:30"), { unitId: "2", date: new Date(2026, 9, 20), startHour: "19:30", duration: 1 });
+  });
+
+  it("takes the parts in any order, with filler words and Hebrew center names", () => {
+    assert.deepEqual(parse("ירושלים at 8pm for 90m on thu"), {
+      unitId: "7",
+      date: new Date(2026, 9, 22),
+      startHour: "20:00",
+      duration: 1.5,
+    });
+  });
+
+  it("moves a weekday whose time already passed to next week", () => {
+    assert.deepEqual(parse("tue 17:00").date, new Date(2026, 9, 27));
+    assert.deepEqual(parse("tuesday 21:00").date, new Date(2026, 9, 20));
+  });
+
+  it("reads dates with and without a year", () => {
+    assert.deepEqual(parse("24/10 10:00").date, new Date(2026, 9, 24));
+    assert.deepEqual(parse("1/11/2026 10:00").date, new Date(2026, 10, 1));
+  });
+
+  it("explains what is missing or out of range", () => {
+    assert.match(parseError("tomorrow 2h"), /start time/);
+    assert.match(parseError("today 25:00"), /not a valid time/);
+    assert.match(parseError("today 20:00 4h"), /1, 1.5, 2, 3 hours/);
+    assert.match(parseError("today 17:00"), /already passed/);
+    assert.match(parseError("30/11 20:00"), /14 days ahead/);
+    assert.match(parseError("tomorrow 20:00 atlantis"), /No tennis center matches "atlantis"/);
+  });
+
+  it("asks for a narrower name when several centers match", () => {
+    assert.match(parseError("tomorrow 20:00 kiryat"), /Kiryat Ono, Kiryat Shmona/);
+  });
+});
+
+describe("findCentersByName", () => {
+  it("matches English and Hebrew names, ignoring case and punctuation", () => {
+    assert.deepEqual(
+      findCentersByName("TEL AVIV").map((center) => center.id),
+      ["13"]
+    );
+    assert.deepEqual(
+      findCentersByName("יד אליהו").map((center) => center.id),
+      ["13"]
+    );
+    assert.deepEqual(findCentersByName("  "), []);
+  });
+});
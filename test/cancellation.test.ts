@@ -0,0 +1,47 @@
+import "./support/raycast-api";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatCancellationDeadline,
+  getCancellationBlocker,
+  getCancellationDeadline,
+  isCancellationClosingSoon,
+} from "../src/services/cancellation";
+import { Rental } from "../src/utils/parser";
+
+const rental: Rental = {
+  date: "09/12/2025",
+  dateObj: new Date(2025, 11, 9),
+  time: "18:00-19:00",
+  court: "7 (ירושלים)",
+  allocationId: "8119602",
+};
+
+describe("cancellation deadline", () => {
+  it("closes a day before the start", () => {
+    assert.deepEqual(getCancellationDeadline(rental), new Date(2025, 11, 8, 18));
+  });
+
+  it("shows the weekday and time, and the date when more than six days away", () => {
+    const deadline = getCancellationDeadline(rental);
+
+    assert.equal(formatCancellationDeadline(deadline, new Date(2025, 11, 5)), "Mon 18:00");
+    assert.equal(formatCancellationDeadline(deadline, new Date(2025, 11, 1)), "Mon 08/12 18:00");
+  });
+
+  it("warns in the last hours of the window", () => {
+    assert.equal(isCancellationClosingSoon(rental, new Date(2025, 11, 8, 10)), false);
+    assert.equal(isCancellationClosingSoon(rental, new Date(2025, 11, 8, 14)), true);
+    assert.equal(isCancellationClosingSoon({ ...rental, allocationId: undefined }, new Date(2025, 11, 8, 14)), false);
+  });
+
+  it("explains a missing cancel link by the deadline once it has passed", () => {
+    const locked = { ...rental, allocationId: undefined };
+
+    assert.match(getCancellationBlocker(locked, new Date(2025, 11, 8, 20)), /likely closed .*~Mon 18:00/);
+    assert.equal(
+      getCancellationBlocker(locked, new Date(2025, 11, 1)),
+      "The site does not offer to cancel this rental"
+    );
+  });
+});
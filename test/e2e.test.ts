@@ -0,0 +1,346 @@
+import { preferences, resetLocalStorage } from "./support/raycast-api";
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MockServer, startMockServer } from "./mock-server/server";
+import { addRental, occupyCourt } from "./mock-server/inventory";
+import { cancelRent, fetchMyRents, fetchTimeSlots, searchCourts } from "../src/services/api";
+import { bookCourtViaHttp } from "../src/services/booking";
+import { testLogin } from "../src/services/auth";
+import { isReschedulable, rescheduleRental } from "../src/services/reschedule";
+import { cancelRental, cancelRentals } from "../src/services/cancellation";
+import { bookGroup } from "../src/services/group-booking";
+import { runBookingLoop } from "../src/run-scheduled-bookings";
+import { parseMyRents } from "../src/utils/parser";
+import { formatDate } from "../src/utils/date";
+
+const credentials = { email: "demo@example.com", userId: "123456789" };
+const date = new Date(2030, 0, 15);
+const search = { unitId: "2", date, startHour: "20:00", duration: 1 };
+
+describe("booking against the mock server", () => {
+  let server: MockServer;
+
+  before(async () => {
+    server = await startMockServer();
+    preferences.baseUrl = server.url;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.inventory.rentals.length = 0;
+    server.unrecognizedConfirmations = false;
+    resetLocalStorage();
+  });
+
+  it("logs in and lists the start hours of a center", async () => {
+    const hours = await fetchTimeSlots("2", date, credentials);
+
+    assert.ok(hours.includes("07:00"));
+    assert.ok(!hours.includes("07:30"));
+    assert.ok(hours.includes("21:30"));
+  });
+
+  it("books a free court, lists it and cancels it", async () => {
+    const initial = await searchCourts(search, credentials);
+    assert.equal(initial.status, "available");
+    assert.deepEqual(initial.courts, [1, 2, 3, 4, 5, 6]);
+
+    const slot = initial.slots[0];
+    const result = await bookCourtViaHttp(
+      { ...search, courtId: slot.courtId, courtNumber: slot.courtNumber },
+      credentials
+    );
+    assert.equal(result.success, true, result.message);
+
+    const remaining = await searchCourts(search, credentials);
+    assert.deepEqual(remaining.courts, [2, 3, 4, 5, 6]);
+
+    const rentals = parseMyRents(await fetchMyRents(credentials));
+    assert.equal(rentals.length, 1);
+    assert.equal(rentals[0].date, formatDate(date));
+    assert.equal(rentals[0].time, "20:00-21:00");
+    assert.equal(rentals[0].court, "1 (רמת השרון)");
+    const { allocationId } = rentals[0];
+    assert.ok(allocationId);
+
+    assert.equal((await cancelRent(allocationId, credentials)).status, "success");
+
+    assert.deepEqual(parseMyRents(await fetchMyRents(credentials)), []);
+    assert.deepEqual((await searchCourts(search, credentials)).courts, [1, 2, 3, 4, 5, 6]);
+  });
+
+  it("verifies a cancellation against the rentals list", async () => {
+    const { slots } = await searchCourts(search, credentials);
+    await bookCourtViaHttp({ ...search, courtId: slots[0].courtId, courtNumber: slots[0].courtNumber }, credentials);
+    const [rental] = parseMyRents(await fetchMyRents(credentials));
+    assert.ok(rental.allocationId);
+
+    const result = await cancelRental({ ...rental, allocationId: rental.allocationId }, credentials);
+
+    assert.equal(result.status, "cancelled");
+    assert.deepEqual(parseMyRents(await fetchMyRents(credentials)), []);
+  });
+
+  it("reports the site's refusal to cancel", async () => {
+    const locked = addRental(server.inventory, {
+      userId: credentials.userId,
+      unitId: "2",
+      courtId: 201,
+      date: formatDate(date),
+      start: "20:00",
+      end: "21:00",
+      cancellable: false,
+    });
+    const [rental] = parseMyRents(await fetchMyRents(credentials));
+
+    const result = await cancelRental({ ...rental, allocationId: String(locked.allocationId) }, credentials);
+
+    assert.deepEqual(result, { status: "refused", message: "לא ניתן לבטל את ההשכרה" });
+    assert.equal(server.inventory.rentals.length, 1);
+  });
+
+  it("cancels several rentals and skips the ones that cannot be cancelled", async () => {
+    const { slots } = await searchCourts(search, credentials);
+    for (const slot of slots.slice(0, 2)) {
+      await bookCourtViaHttp({ ...search, courtId: slot.courtId, courtNumber: slot.courtNumber }, credentials);
+    }
+    addRental(server.inventory, {
+      userId: credentials.userId,
+      unitId: "2",
+      courtId: slots[2].courtId,
+      date: formatDate(date),
+      start: "20:00",
+      end: "21:00",
+      cancellable: false,
+    });
+    const rentals = parseMyRents(await fetchMyRents(credentials));
+    const progress: number[] = [];
+
+    const items = await cancelRentals(rentals, credentials, { delayMs: 0, onProgress: (done) => progress.push(done) });
+
+    assert.deepEqual(
+      items.map((item) => [item.rental.courtNumber, item.status]),
+      [
+        [1, "cancelled"],
+        [2, "cancelled"],
+        [3, "skipped"],
+      ]
+    );
+    assert.deepEqual(progress, [1, 2, 3]);
+    assert.deepEqual(
+      parseMyRents(await fetchMyRents(credentials)).map((r) => r.courtNumber),
+      [3]
+    );
+  });
+
+  it("refuses a court taken by someone else after the search", async () => {
+    const { slots } = await searchCourts(search, credentials);
+    occupyCourt(server.inventory, {
+      unitId: "2",
+      courtId: slots[0].courtId,
+      date: formatDate(date),
+      start: "20:00",
+      duration: 1,
+    });
+
+    const result = await bookCourtViaHttp(
+      { ...search, courtId: slots[0].courtId, courtNumber: slots[0].courtNumber },
+      credentials
+    );
+
+    assert.equal(result.success, false);
+    assert.equal(!result.success && result.rejected, true);
+    assert.equal(server.inventory.rentals.length, 1);
+  });
+
+  it("reports a fully booked slot with suggestions", async () => {
+    for (const court of server.inventory.centers.find((c) => c.unitId === "2")?.courts ?? []) {
+      occupyCourt(server.inventory, {
+        unitId: "2",
+        courtId: court.id,
+        date: formatDate(date),
+        start: "20:00",
+        duration: 1,
+      });
+    }
+
+    const availability = await searchCourts(search, credentials);
+
+    assert.equal(availability.status, "no-courts");
+    assert.deepEqual(availability.suggestedTimes, ["07:00", "07:30", "08:00"]);
+  });
+
+  it("reschedules by booking the new slot before cancelling the old one", async () => {
+    const { slots } = await searchCourts(search, credentials);
+    await bookCourtViaHttp({ ...search, courtId: slots[0].courtId, courtNumber: slots[0].courtNumber }, credentials);
+    const [rental] = parseMyRents(await fetchMyRents(credentials));
+    assert.ok(isReschedulable(rental));
+
+    const later = { ...search, startHour: "21:00" };
+    const result = await rescheduleRental(
+      rental,
+      { ...later, courtId: slots[0].courtId, courtNumber: slots[0].courtNumber },
+      credentials
+    );
+
+    assert.equal(result.status, "rescheduled");
+    assert.deepEqual(
+      parseMyRents(await fetchMyRents(credentials)).map((r) => r.time),
+      ["21:00-22:00"]
+    );
+  });
+
+  it("keeps the old rental when the new slot is taken", async () => {
+    const { slots } = await searchCourts(search, credentials);
+    await bookCourtViaHttp({ ...search, courtId: slots[0].courtId, courtNumber: slots[0].courtNumber }, credentials);
+    const [rental] = parseMyRents(await fetchMyRents(credentials));
+    assert.ok(isReschedulable(rental));
+    occupyCourt(server.inventory, {
+      unitId: "2",
+      courtId: slots[1].courtId,
+      date: formatDate(date),
+      start: "21:00",
+      duration: 1,
+    });
+
+    const result = await rescheduleRental(
+      rental,
+      { ...search, startHour: "21:00", courtId: slots[1].courtId, courtNumber: slots[1].courtNumber },
+      credentials
+    );
+
+    assert.equal(result.status, "not-booked");
+    assert.deepEqual(
+      parseMyRents(await fetchMyRents(credentials)).map((r) => r.time),
+      ["20:00-21:00"]
+    );
+  });
+
+  it("keeps the old rental when the new slot was ordered without a confirmation", async () => {
+    const { slots } = await searchCourts(search, credentials);
+    await bookCourtViaHttp({ ...search, courtId: slots[0].courtId, courtNumber: slots[0].courtNumber }, credentials);
+    const [rental] = parseMyRents(await fetchMyRents(credentials));
+    assert.ok(isReschedulable(rental));
+    server.unrecognizedConfirmations = true;
+
+    const result = await rescheduleRental(
+      rental,
+      { ...search, startHour: "21:00", courtId: slots[0].courtId, courtNumber: slots[0].courtNumber },
+      credentials
+    );
+
+    assert.equal(result.status, "unverified");
+    assert.deepEqual(
+      parseMyRents(await fetchMyRents(credentials)).map((r) => r.time),
+      ["20:00-21:00", "21:00-22:00"]
+    );
+  });
+
+  it("books two courts for back-to-back blocks as one group", async () => {
+    const { slots } = await searchCourts(search, credentials);
+
+    const result = await bookGroup({ ...search, blocks: 2, courts: slots.slice(0, 2) }, credentials, {
+      allOrNothing: true,
+    });
+
+    assert.equal(result.status, "booked");
+    assert.deepEqual(
+      parseMyRents(await fetchMyRents(credentials)).map((r) => `${r.time} ${r.courtNumber}`),
+      ["20:00-21:00 1", "20:00-21:00 2", "21:00-22:00 1", "21:00-22:00 2"]
+    );
+  });
+
+  it("cancels what it booked when an all-or-nothing group cannot be completed", async () => {
+    const { slots } = await searchCourts(search, credentials);
+    occupyCourt(server.inventory, {
+      unitId: "2",
+      courtId: slots[1].courtId,
+      date: formatDate(date),
+      start: "20:00",
+      duration: 1,
+    });
+
+    const result = await bookGroup({ ...search, blocks: 1, courts: slots.slice(0, 2) }, credentials, {
+      allOrNothing: true,
+    });
+
+    assert.equal(result.status, "rolled-back");
+    assert.equal(result.booked.length, 1);
+    assert.deepEqual(
+      result.rollback.map((item) => item.status),
+      ["cancelled"]
+    );
+    assert.deepEqual(parseMyRents(await fetchMyRents(credentials)), []);
+  });
+
+  it("also cancels an order sent without a confirmation when undoing a group", async () => {
+    const { slots } = await searchCourts(search, credentials);
+    server.unrecognizedConfirmations = true;
+
+    const result = await bookGroup({ ...search, blocks: 1, courts: slots.slice(0, 2) }, credentials, {
+      allOrNothing: true,
+    });
+
+    assert.equal(result.status, "rolled-back");
+    assert.equal(result.booked.length, 0);
+    assert.deepEqual(
+      result.rollback.map((item) => item.status),
+      ["cancelled"]
+    );
+    assert.deepEqual(parseMyRents(await fetchMyRents(credentials)), []);
+  });
+
+  it("keeps the courts it could book when the group is best-effort", async () => {
+    const { slots } = await searchCourts(search, credentials);
+    occupyCourt(server.inventory, {
+      unitId: "2",
+      courtId: slots[0].courtId,
+      date: formatDate(date),
+      start: "20:00",
+      duration: 1,
+    });
+
+    const result = await bookGroup({ ...search, blocks: 1, courts: slots.slice(0, 2) }, credentials, {
+      allOrNothing: false,
+    });
+
+    assert.equal(result.status, "partial");
+    assert.deepEqual(
+      parseMyRents(await fetchMyRents(credentials)).map((r) => r.courtNumber),
+      [2]
+    );
+  });
+
+  it("stops a scheduled booking loop once an order was sent without a confirmation", async () => {
+    server.unrecognizedConfirmations = true;
+
+    const { status, result } = await runBookingLoop(
+      {
+        id: "schedule-1",
+        unitId: "2",
+        date: formatDate(date),
+        time: "20:00",
+        duration: 1,
+        preferredCourts: [],
+        anyCourt: true,
+        opensAt: new Date().toISOString(),
+        status: "running",
+      },
+      credentials
+    );
+
+    assert.equal(status, "unverified");
+    assert.equal(result.attempts, 1);
+    assert.equal(parseMyRents(await fetchMyRents(credentials)).length, 1);
+  });
+
+  it("classifies wrong credentials", async () => {
+    const result = await testLogin({ email: credentials.email, userId: "987654321" });
+
+    assert.equal(result.success, false);
+    assert.equal(!result.success && result.reason, "invalid-credentials");
+  });
+});
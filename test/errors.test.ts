@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ApiError, getRecoveryActions, toApiError } from "../src/services/errors";
+import { ParseDriftError } from "../src/utils/parser";
+
+describe("toApiError", () => {
+  it("keeps API errors and maps parse drift", () => {
+    const error = new ApiError({ kind: "session-expired" });
+    assert.equal(toApiError(error), error);
+    assert.equal(toApiError(new ParseDriftError("search_court.js", ["court list"])).kind, "parse");
+  });
+
+  it("treats failed requests as network errors", () => {
+    const refused = Object.assign(new Error("connect ECONNREFUSED 127.0.0.1:443"), { code: "ECONNREFUSED" });
+    const fetchError = Object.assign(new Error("request failed"), { name: "FetchError" });
+
+    assert.equal(toApiError(refused).kind, "network");
+    assert.equal(toApiError(fetchError).kind, "network");
+    assert.equal(toApiError(new TypeError("fetch failed", { cause: refused })).kind, "network");
+  });
+
+  it("does not blame the connection for bugs", () => {
+    const error = toApiError(new TypeError("Cannot read properties of undefined (reading 'courtId')"));
+
+    assert.equal(error.kind, "unexpected");
+    assert.match(error.message, /Cannot read properties of undefined/);
+    assert.deepEqual(getRecoveryActions(error), ["open-website"]);
+  });
+});
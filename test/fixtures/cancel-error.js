@@ -0,0 +1 @@
+alert('לא ניתן לבטל את ההשכרה');
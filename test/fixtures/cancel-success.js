@@ -0,0 +1,2 @@
+jQuery('#rent_allocation_8119602').fadeOut();
+jQuery('#flash').html('<div class=\"alert alert-info\">ההשכרה בוטלה<\/div>');
@@ -0,0 +1,3 @@
+jQuery('#step-3').removeClass('active');
+jQuery('#step-4').html('<div class=\"alert alert-danger\">המגרש כבר הוזמן על ידי משתמש אחר<\/div>');
+jQuery('#step-4').addClass('active');
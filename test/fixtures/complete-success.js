@@ -0,0 +1,3 @@
+jQuery('#step-3').removeClass('active');
+jQuery('#step-4').html('<div class=\"alert alert-success\">\n  <strong>ההזמנה בוצעה בהצלחה<\/strong>\n  <p>אישור נשלח לדוא&quot;ל<\/p>\n<\/div>');
+jQuery('#step-4').addClass('active');
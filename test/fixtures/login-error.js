@@ -0,0 +1,2 @@
+jQuery('#login-errors').html('<div class=\"alert alert-danger\">שם משתמש או תעודת זהות שגויים<\/div>');
+jQuery('#login-errors').show();
@@ -0,0 +1,2 @@
+jQuery('#login-errors').html('');
+window.location.href = '/self_services/court_invitation';
@@ -0,0 +1,3 @@
+jQuery('#step-2').removeClass('active');
+jQuery('#step-3').html('<div class=\"panel-order-details\">\n  <p>מגרש: 4<\/p>\n  <a class=\"btn btn-default\" href=\"\/self_services\/court_invitation\">חזרה<\/a>\n  <a class=\"btn btn-blue\" data-remote=\"true\" data-method=\"post\" href=\"\/self_services\/complete_invitation.js?order_id=5512&amp;step=4\">המשך<\/a>\n<\/div>');
+jQuery('#step-3').addClass('active');
@@ -0,0 +1,3 @@
+jQuery('#step-1').removeClass('active');
+jQuery('#step-2').html('<div class=\"panel panel-default\">\n  <div class=\"panel-heading\">מגרשים פנויים<\/div>\n  <table class=\"table table-striped\">\n    <tr>\n  <td>\n    מגרש: 4\n  <\/td>\n  <td width=\"10%\"><a class=\"btn btn-md btn-primary btn-choose\" data-type=\"script\" data-remote=\"true\" rel=\"nofollow\" data-method=\"post\" href=\"\/self_services\/select_court_invitation.js?court_id=112&amp;duration=1.0&amp;end_time=2025-12-04+22%3A00%3A00+UTC&amp;start_time=2025-12-04+21%3A00%3A00+UTC\">בחר&nbsp;&nbsp;<i class=\'fa fa-arrow-circle-left\'><\/i><\/a><\/td>\n<\/tr>\n    <tr>\n  <td>\n    מגרש: 2\n  <\/td>\n  <td width=\"10%\"><a class=\"btn btn-md btn-primary btn-choose\" data-type=\"script\" data-remote=\"true\" rel=\"nofollow\" data-method=\"post\" href=\"\/self_services\/select_court_invitation.js?court_id=110&amp;duration=1.0&amp;end_time=2025-12-04+22%3A00%3A00+UTC&amp;start_time=2025-12-04+21%3A00%3A00+UTC\">בחר&nbsp;&nbsp;<i class=\'fa fa-arrow-circle-left\'><\/i><\/a><\/td>\n<\/tr>\n  <\/table>\n<\/div>');
+jQuery('#step-2').addClass('active');
@@ -0,0 +1,3 @@
+jQuery('#step-1').removeClass('active');
+jQuery('#step-2').html('<div class=\"alert alert-danger\">\n  לא נמצאו מגרשים פנויים. נסה מועד אחר\n<\/div>');
+jQuery('#step-2').addClass('active');
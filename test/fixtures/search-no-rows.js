@@ -0,0 +1,3 @@
+jQuery('#step-1').removeClass('active');
+jQuery('#step-2').html('<div class=\"panel panel-default\">\n  <div class=\"panel-heading\">מגרשים פנויים<\/div>\n  <table class=\"table table-striped\">\n  <\/table>\n<\/div>');
+jQuery('#step-2').addClass('active');
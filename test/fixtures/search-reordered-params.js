@@ -0,0 +1,3 @@
+jQuery('#step-1').removeClass('active');
+jQuery('#step-2').html('<div class=\"panel panel-default\">\n  <table class=\"table table-striped\">\n    <tr>\n  <td>\n    מגרש: 6\n  <\/td>\n  <td width=\"10%\"><a class=\"btn btn-md btn-primary btn-choose\" data-method=\"post\" href=\"\/self_services\/select_court_invitation.js?start_time=2025-12-04+21%3A00%3A00+UTC&amp;end_time=2025-12-04+22%3A30%3A00+UTC&amp;duration=1.5&amp;court_id=114\">בחר<\/a><\/td>\n<\/tr>\n    <tr>\n  <td>\n    מגרש: 7\n  <\/td>\n  <td width=\"10%\"><a class=\"btn btn-md btn-primary btn-choose\" data-method=\"post\" href=\"\/self_services\/select_court_invitation.js?court_id=115&amp;duration=1.5\">בחר<\/a><\/td>\n<\/tr>\n  <\/table>\n<\/div>');
+jQuery('#step-2').addClass('active');
@@ -0,0 +1,3 @@
+jQuery('#step-1').removeClass('active');
+jQuery('#step-2').html('<div class=\"alert alert-danger\">אין מגרש פנוי במועד שביקשת<\/div>\n<p>ניתן לבחור מועדים אחרים:<\/p>\n<div class=\"suggestion\"><h3>20:30-21:30<\/h3><\/div>\n<div class=\"suggestion\"><h3>21:00-22:00<\/h3><\/div>\n<div class=\"suggestion\"><h3>20:30-21:30<\/h3><\/div>');
+jQuery('#step-2').addClass('active');
@@ -0,0 +1,3 @@
+jQuery('#step-1').removeClass('active');
+jQuery('#step-2').html('<div class=\"courts-grid\">\n  <div class=\"court-card\" data-court=\"112\">Court 4<\/div>\n<\/div>');
+jQuery('#step-2').addClass('active');
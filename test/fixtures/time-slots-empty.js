@@ -0,0 +1 @@
+jQuery('#search_start_hour').html('<option value=\"\">אין שעות פנויות<\/option>');
@@ -0,0 +1,2 @@
+jQuery('#search_court_type').val(\"1\");
+jQuery('#search_start_hour').html('<option value=\"\">בחר שעה<\/option><option value=\"07:00\">07:00<\/option><option value=\"07:30\">07:30<\/option><option value=\"08:00\">08:00<\/option><option value=\"08:30\">08:30<\/option><option value=\"09:30\">09:30<\/option><option value=\"10:00\">10:00<\/option><option value=\"07:00\">07:00<\/option>');
@@ -0,0 +1,143 @@
+import { resetLocalStorage } from "./support/raycast-api";
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HistoryEntry, getRentalHistory, syncRentalHistory } from "../src/services/history";
+import { Account } from "../src/services/accounts";
+import { computeRentalStats, getFavoriteCourtNumbers } from "../src/utils/rental-stats";
+import { Rental } from "../src/utils/parser";
+
+const account: Account = { id: "default", name: "Me", email: "demo@example.com", userId: "123456789" };
+
+function rental(date: string, time: string, court: string): Rental {
+  const [day, month, year] = date.split("/").map(Number);
+  return { date, dateObj: new Date(year, month - 1, day), time, court };
+}
+
+function entry(date: string, time: string, court: string, status: HistoryEntry["status"]): HistoryEntry {
+  const timestamp = "2025-12-01T10:00:00.000Z";
+  return { id: `${date}_${time}_${court}`, date, time, court, status, firstSeenAt: timestamp, lastSeenAt: timestamp };
+}
+
+describe("syncRentalHistory", () => {
+  beforeEach(() => {
+    resetLocalStorage();
+  });
+
+  it("keeps rentals the site stops listing and tells played from cancelled", async () => {
+    const played = rental("02/12/2025", "20:00-21:00", "3 (רמת השרון)");
+    const dropped = rental("09/12/2025", "12:00-13:00", "7 (ירושלים)");
+    const kept = rental("10/12/2025", "19:00-20:30", "7 (ירושלים)");
+
+    await syncRentalHistory(account, [played, dropped, kept], new Date(2025, 11, 1, 12));
+    const history = await syncRentalHistory(account, [kept], new Date(2025, 11, 5, 12));
+
+    assert.deepEqual(
+      history.map((e) => [e.date, e.status]),
+      [
+        ["10/12/2025", "upcoming"],
+        ["09/12/2025", "cancelled"],
+        ["02/12/2025", "played"],
+      ]
+    );
+    assert.equal(history[0].firstSeenAt, new Date(2025, 11, 1, 12).toISOString());
+  });
+
+  it("marks listed rentals as played once they start", async () => {
+    await syncRentalHistory(account, [rental("02/12/2025", "20:00-21:00", "3 (רמת השרון)")], new Date(2025, 11, 3));
+
+    assert.equal((await getRentalHistory(account))[0].status, "played");
+  });
+
+  it("brings back a cancelled slot that was booked again", async () => {
+    const slot = rental("09/12/2025", "12:00-13:00", "7 (ירושלים)");
+    await syncRentalHistory(account, [slot], new Date(2025, 11, 1));
+    await syncRentalHistory(account, [], new Date(2025, 11, 2));
+    const history = await syncRentalHistory(account, [slot], new Date(2025, 11, 3));
+
+    assert.deepEqual(
+      history.map((e) => e.status),
+      ["upcoming"]
+    );
+  });
+});
+
+describe("computeRentalStats", () => {
+  const history = [
+    entry("02/12/2025", "20:00-21:00", "3 (רמת השרון)", "played"), // Tuesday
+    entry("09/12/2025", "20:00-21:30", "3 (רמת השרון)", "played"), // Tuesday
+    entry("13/11/2025", "08:00-10:00", "7 (ירושלים)", "played"), // Thursday
+    entry("20/11/2025", "08:00-09:00", "7 (ירושלים)", "cancelled"),
+    entry("30/12/2025", "20:00-21:00", "1 (ירושלים)", "upcoming"),
+  ];
+
+  it("counts only played rentals towards hours", () => {
+    const stats = computeRentalStats(history);
+
+    assert.equal(stats.sessionsPlayed, 3);
+    assert.equal(stats.hoursPlayed, 4.5);
+    assert.equal(stats.cancellationRate, 0.25);
+    assert.deepEqual(stats.hoursByMonth, [
+      { label: "Dec 2025", sessions: 2, hours: 2.5 },
+      { label: "Nov 2025", sessions: 1, hours: 2 },
+    ]);
+  });
+
+  it("ranks courts, start times and centers by sessions played", () => {
+    const stats = computeRentalStats(history);
+
+    assert.deepEqual(
+      stats.favoriteCourts.map((g) => g.label),
+      ["Court 3 (Ramat Hasharon)", "Court 7 (Jerusalem)"]
+    );
+    assert.deepEqual(
+      stats.favoriteTimes.map((g) => [g.label, g.sessions]),
+      [
+        ["20:00", 2],
+        ["08:00", 1],
+      ]
+    );
+    assert.deepEqual(
+      stats.byCenter.map((g) => [g.label, g.hours]),
+      [
+        ["Ramat Hasharon", 2.5],
+        ["Jerusalem", 2],
+      ]
+    );
+  });
+
+  it("lists every weekday from Sunday", () => {
+    const stats = computeRentalStats(history);
+
+    assert.deepEqual(
+      stats.byWeekday.map((g) => [g.label, g.sessions]),
+      [
+        ["Sun", 0],
+        ["Mon", 0],
+        ["Tue", 2],
+        ["Wed", 0],
+        ["Thu", 1],
+        ["Fri", 0],
+        ["Sat", 0],
+      ]
+    );
+  });
+
+  it("has no cancellation rate without rentals", () => {
+    assert.equal(computeRentalStats([]).cancellationRate, 0);
+  });
+});
+
+describe("getFavoriteCourtNumbers", () => {
+  it("ranks the courts played at one center", () => {
+    const history = [
+      entry("02/12/2025", "20:00-21:00", "3 (רמת השרון)", "played"),
+      entry("04/12/2025", "20:00-21:00", "5 (רמת השרון)", "played"),
+      entry("09/12/2025", "20:00-21:00", "5 (רמת השרון)", "played"),
+      entry("11/12/2025", "20:00-21:00", "2 (רמת השרון)", "cancelled"),
+      entry("13/11/2025", "08:00-10:00", "7 (ירושלים)", "played"),
+    ];
+
+    assert.deepEqual(getFavoriteCourtNumbers(history, "2"), [5, 3]);
+    assert.deepEqual(getFavoriteCourtNumbers(history, "5"), []);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildRentalsCalendar, getRentalUid } from "../src/utils/ics";
+import { Rental } from "../src/utils/parser";
+
+const rental: Rental = {
+  date: "09/12/2025",
+  dateObj: new Date(2025, 11, 9),
+  time: "12:00-13:00",
+  court: "7 (ירושלים)",
+  courtNumber: 7,
+  centerName: "ירושלים",
+  unitId: "7",
+  allocationId: "8119602",
+};
+
+const now = new Date(Date.UTC(2025, 11, 1, 10, 15, 0));
+
+/**
+ * Undo line folding (RFC 5545 3.1)
+ */
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("buildRentalsCalendar", () => {
+  it("writes one timed event per rental in the Jerusalem timezone", () => {
+    const lines = unfold(buildRentalsCalendar([rental], { name: "Tennis Court Rentals", now }));
+
+    assert.equal(lines[0], "BEGIN:VCALENDAR");
+    assert.ok(lines.includes("TZID:Asia/Jerusalem"));
+    assert.ok(lines.includes("X-WR-CALNAME:Tennis Court Rentals"));
+    assert.ok(lines.includes("DTSTAMP:20251201T101500Z"));
+    assert.ok(lines.includes("DTSTART;TZID=Asia/Jerusalem:20251209T120000"));
+    assert.ok(lines.includes("DTEND;TZID=Asia/Jerusalem:20251209T130000"));
+    assert.ok(lines.includes("SUMMARY:Tennis - Court 7"));
+    assert.ok(lines.includes("LOCATION:מרכז הטניס ירושלים (Jerusalem Tennis Center)"));
+    assert.ok(lines.includes("DESCRIPTION:Court 7 (ירושלים)\\, 09/12/2025 12:00-13:00"));
+    assert.equal(lines.filter((line) => line === "BEGIN:VEVENT").length, 1);
+    assert.equal(lines.at(-2), "END:VCALENDAR");
+  });
+
+  it("ends every line with CRLF and folds lines longer than 75 octets", () => {
+    const ics = buildRentalsCalendar([{ ...rental, court: "7 (ירושלים) - מגרש מקורה עם תאורה ליד החניה הצפונית" }], {
+      name: "Tennis Court Rentals",
+      now,
+    });
+
+    assert.ok(ics.endsWith("\r\n"));
+    assert.ok(!/[^\r]\n/.test(ics));
+    for (const line of ics.split("\r\n")) {
+      assert.ok(Buffer.byteLength(line, "utf8") <= 75, line);
+    }
+    assert.ok(unfold(ics).some((line) => line.includes("מגרש מקורה עם תאורה ליד החניה הצפונית")));
+  });
+});
+
+describe("getRentalUid", () => {
+  it("stays the same once the rental can no longer be cancelled", () => {
+    assert.equal(getRentalUid(rental), getRentalUid({ ...rental, allocationId: undefined }));
+  });
+
+  it("differs between courts and start times", () => {
+    assert.notEqual(getRentalUid(rental), getRentalUid({ ...rental, court: "6 (ירושלים)", courtNumber: 6 }));
+    assert.notEqual(getRentalUid(rental), getRentalUid({ ...rental, time: "13:00-14:00" }));
+  });
+
+  it("identifies the center by id", () => {
+    assert.equal(getRentalUid(rental), "rental-20251209T120000-7-7@itec-courts.raycast");
+  });
+
+  it("reads the court from its label, as earlier exports did", () => {
+    const labelOnly: Rental = { date: rental.date, dateObj: rental.dateObj, time: rental.time, court: rental.court };
+
+    assert.equal(getRentalUid(labelOnly), getRentalUid(rental));
+    assert.equal(
+      getRentalUid({ ...rental, court: "3 (מרכז חדש)", unitId: "99", courtNumber: 3 }),
+      "rental-20251209T120000-3%20(%D7%9E%D7%A8%D7%9B%D7%96%20%D7%97%D7%93%D7%A9)@itec-courts.raycast"
+    );
+  });
+});
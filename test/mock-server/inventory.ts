@@ -0,0 +1,145 @@
+/**
+ * Court inventory of the mock ITEC server: users, centers and the rentals taking up their courts
+ */
+
+import { TENNIS_CENTERS } from "../../src/constants";
+
+export interface MockUser {
+  email: string;
+  userId: string; // Israeli ID number, the login password
+}
+
+export interface MockCenter {
+  unitId: string; // Same ids as TENNIS_CENTERS
+  courts: Array<{ number: number; id: number }>;
+  hours: string[]; // Start hours offered by set_time_by_unit, e.g. "07:00"
+}
+
+export interface MockRental {
+  allocationId: number;
+  userId: string; // Owner, or any other ID number for courts taken by other people
+  unitId: string;
+  courtId: number;
+  date: string; // dd/MM/yyyy
+  start: string; // HH:mm
+  end: string; // HH:mm
+  cancellable: boolean;
+}
+
+/**
+ * One court at one time, e.g. a booking in progress
+ */
+export interface MockSlot {
+  unitId: string;
+  courtId: number;
+  date: string; // dd/MM/yyyy
+  start: string; // HH:mm
+  duration: number; // Hours
+}
+
+export interface MockInventory {
+  users: MockUser[];
+  centers: MockCenter[];
+  rentals: MockRental[];
+}
+
+/**
+ * Half-hourly start hours between two full hours, e.g. 07:00 ... 21:30
+ */
+export function halfHours(from: number, to: number): string[] {
+  const hours: string[] = [];
+  for (let hour = from; hour < to; hour++) {
+    const padded = String(hour).padStart(2, "0");
+    hours.push(`${padded}:00`, `${padded}:30`);
+  }
+  return hours;
+}
+
+/**
+ * One demo user and six courts at every center, all free
+ */
+export function createDefaultInventory(): MockInventory {
+  return {
+    users: [{ email: "demo@example.com", userId: "123456789" }],
+    centers: TENNIS_CENTERS.map((center) => ({
+      unitId: center.id,
+      courts: [1, 2, 3, 4, 5, 6].map((number) => ({ number, id: Number(center.id) * 100 + number })),
+      hours: halfHours(7, 22),
+    })),
+    rentals: [],
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * End hour of a booking, e.g. ("20:30", 1.5) -> "22:00"
+ */
+export function addHours(start: string, duration: number): string {
+  const end = toMinutes(start) + duration * 60;
+  return `${String(Math.floor(end / 60)).padStart(2, "0")}:${String(end % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Courts of a center with no rental overlapping the given time
+ */
+export function getFreeCourts(
+  inventory: MockInventory,
+  unitId: string,
+  date: string,
+  start: string,
+  duration: number
+): MockCenter["courts"] {
+  const center = inventory.centers.find((c) => c.unitId === unitId);
+  if (!center || !center.hours.includes(start)) {
+    return [];
+  }
+
+  const from = toMinutes(start);
+  const to = from + duration * 60;
+
+  return center.courts.filter(
+    (court) =>
+      !inventory.rentals.some(
+        (rental) =>
+          rental.courtId === court.id &&
+          rental.date === date &&
+          toMinutes(rental.start) < to &&
+          toMinutes(rental.end) > from
+      )
+  );
+}
+
+/**
+ * Check if one court is free for the given time
+ */
+export function isCourtFree(inventory: MockInventory, slot: MockSlot): boolean {
+  return getFreeCourts(inventory, slot.unitId, slot.date, slot.start, slot.duration).some(
+    (court) => court.id === slot.courtId
+  );
+}
+
+/**
+ * Take a court for someone else, so searches no longer offer it
+ */
+export function occupyCourt(inventory: MockInventory, slot: MockSlot): MockRental {
+  return addRental(inventory, {
+    userId: "000000000",
+    unitId: slot.unitId,
+    courtId: slot.courtId,
+    date: slot.date,
+    start: slot.start,
+    end: addHours(slot.start, slot.duration),
+    cancellable: false,
+  });
+}
+
+export function addRental(inventory: MockInventory, rental: Omit<MockRental, "allocationId">): MockRental {
+  const allocationId = Math.max(8100000, ...inventory.rentals.map((r) => r.allocationId)) + 1;
+  const added = { ...rental, allocationId };
+  inventory.rentals.push(added);
+  return added;
+}
@@ -0,0 +1,32 @@
+/**
+ * Run the mock ITEC server for manual testing: npm run mock-server -- [--port 4567] [--inventory file.json]
+ * Point the extension's "ITEC Website URL" preference at the printed URL
+ */
+
+import { readFileSync } from "node:fs";
+import { MockInventory, createDefaultInventory } from "./inventory";
+import { startMockServer } from "./server";
+
+function getArgument(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const inventoryPath = getArgument("inventory");
+  const inventory: MockInventory = inventoryPath
+    ? JSON.parse(readFileSync(inventoryPath, "utf8"))
+    : createDefaultInventory();
+
+  const server = await startMockServer({ inventory, port: Number(getArgument("port") ?? 4567) });
+
+  console.log(`Mock ITEC server running at ${server.url}`);
+  for (const user of inventory.users) {
+    console.log(`  Log in with ${user.email} / ${user.userId}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,339 @@
+/**
+ * Local stand-in for the ITEC self-service site, speaking the same jQuery .js responses
+ * so the booking and cancel flows can run end to end without touching real reservations
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { randomBytes } from "node:crypto";
+import { TENNIS_CENTERS } from "../../src/constants";
+import {
+  MockInventory,
+  MockSlot,
+  addHours,
+  addRental,
+  createDefaultInventory,
+  getFreeCourts,
+  isCourtFree,
+} from "./inventory";
+
+export interface MockServer {
+  url: string; // e.g. "http://127.0.0.1:4567", for the baseUrl preference
+  inventory: MockInventory; // Live inventory, edit it to script the scenario
+  unrecognizedConfirmations: boolean; // Book, but answer the confirmation with a page showing no outcome
+  close(): Promise<void>;
+}
+
+interface Session {
+  userId: string;
+  orders: Map<number, MockSlot>; // Selected courts by order id, waiting for complete_invitation
+}
+
+interface MockResponse {
+  status?: number;
+  body: string;
+  headers?: Record<string, string>;
+}
+
+const LOGIN_PATH = "/self_services/login";
+const NO_COURTS_MESSAGE = "לא נמצאו מגרשים פנויים. נסה מועד אחר";
+const TAKEN_MESSAGE = "המגרש כבר הוזמן על ידי משתמש אחר";
+
+/**
+ * Escape HTML for a single-quoted JS string, the way Rails' escape_javascript does
+ */
+function toJsString(html: string): string {
+  return html
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/\//g, "\\/")
+    .replace(/\n/g, "\\n");
+}
+
+function renderStep(stepId: string, html: string, previousStepId?: string): string {
+  const lines = [`jQuery('#${stepId}').html('${toJsString(html)}');`, `jQuery('#${stepId}').addClass('active');`];
+  return (previousStepId ? [`jQuery('#${previousStepId}').removeClass('active');`, ...lines] : lines).join("\n");
+}
+
+function tokenField(token: string): string {
+  return `<input type="hidden" name="authenticity_token" value="${token}" />`;
+}
+
+/**
+ * "dd/MM/yyyy" <-> "yyyy-MM-dd" as used in the court links
+ */
+function toIsoDate(date: string): string {
+  const [day, month, year] = date.split("/");
+  return `${year}-${month}-${day}`;
+}
+
+function fromIsoDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+function getCourtLabel(inventory: MockInventory, unitId: string, courtId: number): string {
+  const court = inventory.centers.find((c) => c.unitId === unitId)?.courts.find((c) => c.id === courtId);
+  const center = TENNIS_CENTERS.find((c) => c.id === unitId);
+  return `${court?.number ?? courtId} (${center?.name ?? unitId})`;
+}
+
+async function readBody(req: IncomingMessage): Promise<URLSearchParams> {
+  req.setEncoding("utf8");
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return new URLSearchParams(body);
+}
+
+/**
+ * Start the mock server. Port 0 picks a free port
+ */
+export async function startMockServer(options: { inventory?: MockInventory; port?: number } = {}): Promise<MockServer> {
+  const inventory = options.inventory ?? createDefaultInventory();
+  const sessions = new Map<string, Session>();
+  let nextOrderId = 5500;
+
+  const mock: MockServer = {
+    url: "",
+    inventory,
+    unrecognizedConfirmations: false,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+
+  function getSession(req: IncomingMessage): Session | undefined {
+    const sessionId = req.headers.cookie?.match(/_session_id=([^;]+)/)?.[1];
+    return sessionId ? sessions.get(sessionId) : undefined;
+  }
+
+  function login(form: URLSearchParams): MockResponse {
+    const user = inventory.users.find((u) => u.email === form.get("login") && u.userId === form.get("p_id"));
+    if (!user) {
+      return {
+        body: [
+          `jQuery('#login-errors').html('${toJsString('<div class="alert alert-danger">שם משתמש או תעודת זהות שגויים</div>')}');`,
+          "jQuery('#login-errors').show();",
+        ].join("\n"),
+      };
+    }
+
+    const sessionId = randomBytes(16).toString("hex");
+    sessions.set(sessionId, { userId: user.userId, orders: new Map() });
+    return {
+      body: "window.location = '/self_services/court_invitation';",
+      headers: { "Set-Cookie": `_session_id=${sessionId}; path=/; HttpOnly` },
+    };
+  }
+
+  function searchCourt(form: URLSearchParams): MockResponse {
+    const unitId = form.get("search[unit_id]") ?? "";
+    const date = form.get("search[start_date]") ?? "";
+    const start = form.get("search[start_hour]") ?? "";
+    const duration = Number(form.get("search[duration]"));
+    const free = getFreeCourts(inventory, unitId, date, start, duration);
+
+    if (free.length === 0) {
+      const suggestions = (inventory.centers.find((c) => c.unitId === unitId)?.hours ?? [])
+        .filter((hour) => hour !== start && getFreeCourts(inventory, unitId, date, hour, duration).length > 0)
+        .slice(0, 3)
+        .map((hour) => `<div class="suggestion"><h3>${hour}-${addHours(hour, duration)}</h3></div>`);
+
+      const html = `<div class="alert alert-danger">${NO_COURTS_MESSAGE}</div>${
+        suggestions.length > 0 ? `<p>ניתן לבחור מועדים אחרים:</p>${suggestions.join("")}` : ""
+      }`;
+      return { body: renderStep("step-2", html, "step-1") };
+    }
+
+    const startTime = `${toIsoDate(date)} ${start}:00 UTC`;
+    const endTime = `${toIsoDate(date)} ${addHours(start, duration)}:00 UTC`;
+    const rows = free.map((court) => {
+      const query = new URLSearchParams({
+        court_id: String(court.id),
+        duration: duration.toFixed(1),
+        end_time: endTime,
+        start_time: startTime,
+      });
+      const href = `/self_services/select_court_invitation.js?${query.toString().replace(/&/g, "&amp;")}`;
+      return [
+        `<tr><td>מגרש: ${court.number}</td>`,
+        `<td width="10%"><a class="btn btn-md btn-primary btn-choose" data-remote="true" data-method="post" href="${href}">בחר</a></td></tr>`,
+      ].join("");
+    });
+
+    const html = [
+      '<div class="panel panel-default"><div class="panel-heading">מגרשים פנויים</div>',
+      `<table class="table table-striped">${rows.join("")}</table></div>`,
+    ].join("");
+    return { body: renderStep("step-2", html, "step-1") };
+  }
+
+  function selectCourt(session: Session, query: URLSearchParams): MockResponse {
+    const courtId = Number(query.get("court_id"));
+    const duration = Number(query.get("duration"));
+    const [isoDate, startTime] = (query.get("start_time") ?? "").split(" ");
+    const date = fromIsoDate(isoDate ?? "");
+    const start = (startTime ?? "").slice(0, 5);
+    const unitId = inventory.centers.find((c) => c.courts.some((court) => court.id === courtId))?.unitId ?? "";
+
+    if (!isCourtFree(inventory, { unitId, courtId, date, start, duration })) {
+      return { body: renderStep("step-3", `<div class="alert alert-danger">${TAKEN_MESSAGE}</div>`, "step-2") };
+    }
+
+    const orderId = nextOrderId++;
+    session.orders.set(orderId, { unitId, courtId, date, start, duration });
+
+    const end = addHours(start, duration);
+    const html = [
+      `<div class="panel-order-details"><p>${getCourtLabel(inventory, unitId, courtId)}</p><p>${date} ${start}-${end}</p>`,
+      '<a class="btn btn-default" href="/self_services/court_invitation">חזרה</a>',
+      `<a class="btn btn-blue" data-remote="true" data-method="post" href="/self_services/complete_invitation.js?order_id=${orderId}&amp;step=4">המשך</a></div>`,
+    ].join("");
+    return { body: renderStep("step-3", html, "step-2") };
+  }
+
+  function completeInvitation(session: Session, query: URLSearchParams): MockResponse {
+    const orderId = Number(query.get("order_id"));
+    const order = session.orders.get(orderId);
+    session.orders.delete(orderId);
+
+    if (!order) {
+      return { body: renderStep("step-4", '<div class="alert alert-danger">ההזמנה אינה בתוקף</div>', "step-3") };
+    }
+    if (!isCourtFree(inventory, order)) {
+      return { body: renderStep("step-4", `<div class="alert alert-danger">${TAKEN_MESSAGE}</div>`, "step-3") };
+    }
+
+    addRental(inventory, {
+      userId: session.userId,
+      unitId: order.unitId,
+      courtId: order.courtId,
+      date: order.date,
+      start: order.start,
+      end: addHours(order.start, order.duration),
+      cancellable: true,
+    });
+
+    if (mock.unrecognizedConfirmations) {
+      return { body: renderStep("step-4", '<div class="panel">ההזמנה התקבלה</div>', "step-3") };
+    }
+
+    return {
+      body: renderStep(
+        "step-4",
+        '<div class="alert alert-success"><strong>ההזמנה בוצעה בהצלחה</strong><p>אישור נשלח לדוא&quot;ל</p></div>',
+        "step-3"
+      ),
+    };
+  }
+
+  function myRents(session: Session): MockResponse {
+    const rows = inventory.rentals
+      .filter((rental) => rental.userId === session.userId)
+      .map((rental) => {
+        const court = getCourtLabel(inventory, rental.unitId, rental.courtId);
+        const cancelLink = rental.cancellable
+          ? `<a class="btn btn-sm btn-danger btn-cancel" data-remote="true" data-method="post" href="/self_services/cancel_rent_allocation/${rental.allocationId}.js">ביטול</a>`
+          : "";
+        return [
+          `<tr><td>${rental.date}</td><td>${rental.start}-${rental.end}</td><td>${court}</td>`,
+          `<td style="color: red">${rental.cancellable ? "" : "לא ניתן לבטל"}</td>`,
+          `<td style="text-align: left">${cancelLink}</td></tr>`,
+        ].join("");
+      });
+
+    const header = "<tr><th>תאריך</th><th>שעה</th><th>מגרש</th><th></th><th></th></tr>";
+    return {
+      body: `<html><body><table class="table table-striped"><thead>${header}</thead><tbody>${rows.join("")}</tbody></table></body></html>`,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    };
+  }
+
+  function cancelRent(session: Session, allocationId: number): MockResponse {
+    const index = inventory.rentals.findIndex(
+      (rental) => rental.allocationId === allocationId && rental.userId === session.userId && rental.cancellable
+    );
+    if (index === -1) {
+      return { body: "alert('לא ניתן לבטל את ההשכרה');" };
+    }
+
+    inventory.rentals.splice(index, 1);
+    return { body: `jQuery('#rent_allocation_${allocationId}').remove();` };
+  }
+
+  async function route(req: IncomingMessage): Promise<MockResponse> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname;
+
+    if (req.method === "GET" && path === LOGIN_PATH) {
+      return {
+        body: `<html><body><form action="/self_services/login.js">${tokenField("mock-login-token")}</form></body></html>`,
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      };
+    }
+    if (req.method === "POST" && path === "/self_services/login.js") {
+      return login(await readBody(req));
+    }
+
+    const session = getSession(req);
+    if (!session) {
+      return { status: 302, body: "", headers: { Location: LOGIN_PATH } };
+    }
+
+    if (req.method === "GET" && path === "/self_services/court_invitation") {
+      return {
+        body: `<html><body><form id="form">${tokenField(`mock-token-${session.userId}`)}</form><div id="step-2"></div><div id="step-3"></div></body></html>`,
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      };
+    }
+    if (req.method === "POST" && path === "/self_services/set_time_by_unit") {
+      const form = await readBody(req);
+      const hours = inventory.centers.find((c) => c.unitId === form.get("unit_id"))?.hours ?? [];
+      const options = hours.map((hour) => `<option value="${hour}">${hour}</option>`).join("");
+      return {
+        body: `jQuery('#search_start_hour').html('${toJsString(`<option value="">בחר שעה</option>${options}`)}');`,
+      };
+    }
+    if (req.method === "POST" && path === "/self_services/search_court.js") {
+      return searchCourt(await readBody(req));
+    }
+    if (req.method === "POST" && path === "/self_services/select_court_invitation.js") {
+      return selectCourt(session, url.searchParams);
+    }
+    if (req.method === "POST" && path === "/self_services/complete_invitation.js") {
+      return completeInvitation(session, url.searchParams);
+    }
+    if (req.method === "GET" && path === "/self_services/my_rents") {
+      return myRents(session);
+    }
+
+    const cancelMatch = path.match(/^\/self_services\/cancel_rent_allocation\/(\d+)\.js$/);
+    if (req.method === "POST" && cancelMatch) {
+      return cancelRent(session, Number(cancelMatch[1]));
+    }
+
+    return { status: 404, body: "Not found" };
+  }
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    route(req)
+      .then((response) => {
+        res.writeHead(response.status ?? 200, {
+          "Content-Type": "text/javascript; charset=utf-8",
+          ...response.headers,
+        });
+        res.end(response.body);
+      })
+      .catch((error) => {
+        res.writeHead(500);
+        res.end(String(error));
+      });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  mock.url = `http://127.0.0.1:${port}`;
+  return mock;
+}
@@ -0,0 +1,323 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  extractHtmlFromResponse,
+  extractStepHtml,
+  isNoCourtsAvailable,
+  ParseDriftError,
+  parseBookingOutcome,
+  parseCancellationOutcome,
+  parseConfirmationLink,
+  parseCourtAvailability,
+  parseCourtSlots,
+  parseLoginError,
+  parseMyRents,
+  parseSuggestedTimes,
+  parseTimeSlots,
+} from "../src/utils/parser";
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", name), "utf8");
+}
+
+describe("extractHtmlFromResponse", () => {
+  it("unescapes the HTML rendered into #step-2", () => {
+    const html = extractHtmlFromResponse(fixture("search-available.js"));
+
+    assert.ok(html.startsWith('<div class="panel panel-default">'));
+    assert.ok(html.includes("</table>"));
+    assert.ok(html.includes("class='fa fa-arrow-circle-left'"));
+    assert.ok(!html.includes("\\"));
+  });
+
+  it("returns an empty string when there is no #step-2 payload", () => {
+    assert.equal(extractHtmlFromResponse(fixture("login-page.html")), "");
+    assert.equal(extractHtmlFromResponse(fixture("order-details.js")), "");
+  });
+});
+
+describe("extractStepHtml", () => {
+  it("extracts other wizard steps", () => {
+    assert.ok(extractStepHtml(fixture("order-details.js"), "step-3").includes("panel-order-details"));
+    assert.ok(extractStepHtml(fixture("complete-success.js"), "step-4").includes("alert-success"));
+  });
+});
+
+describe("isNoCourtsAvailable", () => {
+  it("detects the fully booked message", () => {
+    assert.equal(isNoCourtsAvailable(extractHtmlFromResponse(fixture("search-fully-booked.js"))), true);
+  });
+
+  it("detects the alternative times message", () => {
+    assert.equal(isNoCourtsAvailable(extractHtmlFromResponse(fixture("search-suggestions.js"))), true);
+  });
+
+  it("is false for a list of free courts", () => {
+    assert.equal(isNoCourtsAvailable(extractHtmlFromResponse(fixture("search-available.js"))), false);
+  });
+
+  it("is false when a success alert is present", () => {
+    assert.equal(isNoCourtsAvailable('<div class="alert alert-success">נסה מועד אחר</div>'), false);
+  });
+});
+
+describe("parseCourtSlots", () => {
+  it("parses every court row with its booking parameters", () => {
+    const slots = parseCourtSlots(extractHtmlFromResponse(fixture("search-available.js")));
+
+    assert.deepEqual(slots, [
+      {
+        courtNumber: 4,
+        courtId: 112,
+        duration: 1,
+        startTime: "2025-12-04 21:00:00 UTC",
+        endTime: "2025-12-04 22:00:00 UTC",
+      },
+      {
+        courtNumber: 2,
+        courtId: 110,
+        duration: 1,
+        startTime: "2025-12-04 21:00:00 UTC",
+        endTime: "2025-12-04 22:00:00 UTC",
+      },
+    ]);
+  });
+
+  it("returns no slots for an empty table", () => {
+    assert.deepEqual(parseCourtSlots(extractHtmlFromResponse(fixture("search-no-rows.js"))), []);
+  });
+
+  it("reads the link parameters in any order and warns about malformed links", () => {
+    const warn = mock.method(console, "warn", () => undefined);
+    const slots = parseCourtSlots(extractHtmlFromResponse(fixture("search-reordered-params.js")));
+    warn.mock.restore();
+
+    assert.deepEqual(slots, [
+      {
+        courtNumber: 6,
+        courtId: 114,
+        duration: 1.5,
+        startTime: "2025-12-04 21:00:00 UTC",
+        endTime: "2025-12-04 22:30:00 UTC",
+      },
+    ]);
+    assert.equal(warn.mock.callCount(), 1);
+    assert.match(String(warn.mock.calls[0].arguments[0]), /parse drift.*court link 2/);
+  });
+
+  it("throws when court rows have no usable booking link", () => {
+    assert.throws(() => parseCourtSlots("<table><tr><td>מגרש: 4</td><td>תפוס</td></tr></table>"), ParseDriftError);
+  });
+});
+
+describe("parseSuggestedTimes", () => {
+  it("returns each suggested start time once, in page order", () => {
+    assert.deepEqual(parseSuggestedTimes(extractHtmlFromResponse(fixture("search-suggestions.js"))), [
+      "20:30",
+      "21:00",
+    ]);
+  });
+
+  it("returns nothing when there are no suggestions", () => {
+    assert.deepEqual(parseSuggestedTimes(extractHtmlFromResponse(fixture("search-fully-booked.js"))), []);
+  });
+});
+
+describe("parseCourtAvailability", () => {
+  it("reports free courts sorted by number", () => {
+    const availability = parseCourtAvailability(fixture("search-available.js"));
+
+    assert.equal(availability.status, "available");
+    assert.deepEqual(availability.courts, [2, 4]);
+    assert.equal(availability.slots.length, 2);
+  });
+
+  it("reports a fully booked slot without suggestions", () => {
+    assert.deepEqual(parseCourtAvailability(fixture("search-fully-booked.js")), {
+      status: "no-courts",
+      courts: [],
+      slots: [],
+      suggestedTimes: undefined,
+    });
+  });
+
+  it("reports a fully booked slot with suggestions", () => {
+    const availability = parseCourtAvailability(fixture("search-suggestions.js"));
+
+    assert.equal(availability.status, "no-courts");
+    assert.deepEqual(availability.suggestedTimes, ["20:30", "21:00"]);
+  });
+
+  it("treats a table without rows as fully booked", () => {
+    assert.equal(parseCourtAvailability(fixture("search-no-rows.js")).status, "no-courts");
+  });
+
+  it("throws instead of reporting no courts for an unknown layout", () => {
+    assert.throws(() => parseCourtAvailability(fixture("search-unknown-layout.js")), ParseDriftError);
+  });
+
+  it("throws when there is no #step-2 payload", () => {
+    assert.throws(() => parseCourtAvailability(fixture("login-page.html")), ParseDriftError);
+  });
+});
+
+describe("parseTimeSlots", () => {
+  it("parses escaped-quote options, dropping half hours whose next full hour is offered", () => {
+    assert.deepEqual(parseTimeSlots(fixture("time-slots-escaped.js")), ["07:00", "08:00", "08:30", "10:00"]);
+  });
+
+  it("parses plain double-quote options", () => {
+    assert.deepEqual(parseTimeSlots(fixture("time-slots-plain.html")), ["19:00", "21:00"]);
+  });
+
+  it("parses single-quote options", () => {
+    assert.deepEqual(parseTimeSlots("<option value='06:00'>06:00</option><option value='06:30'>06:30</option>"), [
+      "06:00",
+      "06:30",
+    ]);
+  });
+
+  it("returns nothing when no hours are offered", () => {
+    assert.deepEqual(parseTimeSlots(fixture("time-slots-empty.js")), []);
+  });
+
+  it("throws when the response has no start hour options", () => {
+    assert.throws(() => parseTimeSlots("jQuery('#search_start_hour').html('');"), ParseDriftError);
+  });
+});
+
+describe("parseMyRents", () => {
+  it("parses cancellable and non-cancellable rows", () => {
+    const rentals = parseMyRents(fixture("my-rents.html"));
+
+    assert.equal(rentals.length, 2);
+    assert.deepEqual(rentals[0], {
+      date: "09/12/2025",
+      dateObj: new Date(2025, 11, 9),
+      time: "12:00-13:00",
+      court: "7 (ירושלים)",
+      courtNumber: 7,
+      centerName: "ירושלים",
+      unitId: "7",
+      allocationId: "8119602",
+    });
+    assert.equal(rentals[1].court, "3 (רמת השרון)");
+    assert.equal(rentals[1].allocationId, undefined);
+  });
+
+  it("returns nothing for an empty rentals table", () => {
+    assert.deepEqual(parseMyRents(fixture("my-rents-empty.html")), []);
+  });
+
+  it("locates columns by header and skips rows that fail validation", () => {
+    const warn = mock.method(console, "warn", () => undefined);
+    const rentals = parseMyRents(fixture("my-rents-reordered.html"));
+    warn.mock.restore();
+
+    assert.deepEqual(rentals, [
+      {
+        date: "11/12/2025",
+        dateObj: new Date(2025, 11, 11),
+        time: "18:00-19:00",
+        court: "5 (תל אביב)",
+        courtNumber: 5,
+        centerName: "תל אביב",
+        unitId: undefined,
+        allocationId: "8120044",
+      },
+    ]);
+    assert.equal(warn.mock.callCount(), 1);
+  });
+
+  it("throws when the page has no rentals table", () => {
+    assert.throws(() => parseMyRents(fixture("login-page.html")), ParseDriftError);
+  });
+});
+
+describe("parseConfirmationLink", () => {
+  it("finds the link that completes the booking", () => {
+    const html = extractStepHtml(fixture("order-details.js"), "step-3");
+
+    assert.deepEqual(parseConfirmationLink(html), {
+      path: "/self_services/complete_invitation.js?order_id=5512&step=4",
+      method: "POST",
+    });
+  });
+
+  it("returns null when there is no such link", () => {
+    assert.equal(parseConfirmationLink(extractHtmlFromResponse(fixture("search-available.js"))), null);
+  });
+});
+
+describe("parseBookingOutcome", () => {
+  it("recognizes a successful booking", () => {
+    const outcome = parseBookingOutcome(extractStepHtml(fixture("complete-success.js"), "step-4"));
+
+    assert.equal(outcome.status, "success");
+    assert.ok(outcome.message.includes("ההזמנה בוצעה בהצלחה"));
+  });
+
+  it("recognizes a rejected booking and keeps the site's message", () => {
+    assert.deepEqual(parseBookingOutcome(extractStepHtml(fixture("complete-error.js"), "step-4")), {
+      status: "error",
+      message: "המגרש כבר הוזמן על ידי משתמש אחר",
+    });
+  });
+
+  it("does not read an unrelated error class or word on a success page as a refusal", () => {
+    const html =
+      '<div class="alert alert-success"><strong>ההזמנה בוצעה בהצלחה</strong></div>' +
+      '<span class="field-error-hint" hidden>Report an error</span>';
+
+    assert.equal(parseBookingOutcome(html).status, "success");
+  });
+
+  it("does not read a success button or word as a confirmed booking", () => {
+    const html =
+      '<div class="panel">ההזמנה התקבלה</div><button class="btn btn-success">Back</button>' +
+      '<script>var status = "success";</script>';
+
+    assert.equal(parseBookingOutcome(html).status, "unknown");
+  });
+
+  it("recognizes a known failure message outside a danger alert", () => {
+    assert.equal(parseBookingOutcome('<div class="alert alert-info">ההזמנה נכשלה, נסו שוב</div>').status, "error");
+  });
+});
+
+describe("parseLoginError", () => {
+  it("extracts the error rendered by login.js", () => {
+    assert.equal(parseLoginError(fixture("login-error.js")), "שם משתמש או תעודת זהות שגויים");
+  });
+
+  it("extracts an alert() message", () => {
+    assert.equal(parseLoginError("alert('המשתמש אינו קיים');"), "המשתמש אינו קיים");
+    assert.equal(parseLoginError('alert("Wrong ID");'), "Wrong ID");
+  });
+
+  it("returns null for a successful login", () => {
+    assert.equal(parseLoginError(fixture("login-success.js")), null);
+  });
+});
+
+describe("parseCancellationOutcome", () => {
+  it("recognizes the removed rental row as success", () => {
+    assert.deepEqual(parseCancellationOutcome(fixture("cancel-success.js"), "8119602"), {
+      status: "success",
+      message: "ההשכרה בוטלה",
+    });
+  });
+
+  it("keeps the site's refusal message", () => {
+    assert.deepEqual(parseCancellationOutcome(fixture("cancel-error.js"), "8119602"), {
+      status: "error",
+      message: "לא ניתן לבטל את ההשכרה",
+    });
+  });
+
+  it("does not take another allocation's row for success", () => {
+    assert.notEqual(parseCancellationOutcome(fixture("cancel-success.js"), "8120044").status, "success");
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * In-memory stand-in for the parts of @raycast/api the services use, so they can run under plain Node.
+ * The package only has a runtime inside Raycast. Import this module before any service module
+ */
+
+import Module from "node:module";
+
+const storage = new Map<string, string | number | boolean>();
+
+export const preferences: Record<string, string | undefined> = {};
+
+export function resetLocalStorage(): void {
+  storage.clear();
+}
+
+const raycastApi = {
+  getPreferenceValues: () => ({ ...preferences }),
+  LocalStorage: {
+    getItem: async (key: string) => storage.get(key),
+    setItem: async (key: string, value: string | number | boolean) => {
+      storage.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      storage.delete(key);
+    },
+    allItems: async () => Object.fromEntries(storage),
+    clear: async () => storage.clear(),
+  },
+  Cache: class {
+    private entries = new Map<string, string>();
+    get = (key: string) => this.entries.get(key);
+    set = (key: string, value: string) => {
+      this.entries.set(key, value);
+    };
+    has = (key: string) => this.entries.has(key);
+    remove = (key: string) => this.entries.delete(key);
+    clear = () => this.entries.clear();
+  },
+  showToast: async () => ({ hide: async () => undefined }),
+  showHUD: async () => undefined,
+  Toast: { Style: { Animated: "ANIMATED", Success: "SUCCESS", Failure: "FAILURE" } },
+};
+
+// Module._load is not part of the public typings
+const loader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = loader._load;
+loader._load = function (request: string, ...rest: unknown[]) {
+  return request === "@raycast/api" ? raycastApi : load.call(this, request, ...rest);
+};